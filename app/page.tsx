@@ -1,11 +1,23 @@
 'use client'
 
+import { useState } from 'react'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ExcelConverter } from '@/components/excel-converter'
-import { MarkdownConverter } from '@/components/markdown-converter'
-import { FileSpreadsheet, FileCode } from 'lucide-react'
+import { MarkdownConverter, type MarkdownDocument } from '@/components/markdown-converter'
+import { XlsxBuilder } from '@/components/xlsx-builder'
+import { SheetDiffViewer } from '@/components/sheet-diff'
+import { FileSpreadsheet, FileCode, FileJson, GitCompare } from 'lucide-react'
 
 export default function Home() {
+  const [activeTab, setActiveTab] = useState('excel')
+  const [importedMarkdown, setImportedMarkdown] = useState<MarkdownDocument | null>(null)
+
+  // Excel 시트를 Markdown 표로 변환한 결과를 Markdown 변환기에서 이어서 편집/저장합니다
+  const handleOpenInMarkdown = (markdownDocument: MarkdownDocument) => {
+    setImportedMarkdown(markdownDocument)
+    setActiveTab('markdown')
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-12 max-w-6xl">
@@ -16,8 +28,8 @@ export default function Home() {
           </p>
         </div>
 
-        <Tabs defaultValue="excel" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-8">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-4 mb-8">
             <TabsTrigger value="excel" className="flex items-center gap-2">
               <FileSpreadsheet className="h-4 w-4" />
               Excel 변환기
@@ -26,14 +38,31 @@ export default function Home() {
               <FileCode className="h-4 w-4" />
               Markdown 변환기
             </TabsTrigger>
+            <TabsTrigger value="xlsx" className="flex items-center gap-2">
+              <FileJson className="h-4 w-4" />
+              XLSX 만들기
+            </TabsTrigger>
+            <TabsTrigger value="diff" className="flex items-center gap-2">
+              <GitCompare className="h-4 w-4" />
+              시트 비교
+            </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="excel" className="mt-6">
-            <ExcelConverter />
+          {/* 탭을 전환해도 불러온 파일과 변환 결과가 유지되도록 항상 마운트해 둡니다 */}
+          <TabsContent value="excel" forceMount className="mt-6 data-[state=inactive]:hidden">
+            <ExcelConverter onOpenInMarkdown={handleOpenInMarkdown} />
+          </TabsContent>
+
+          <TabsContent value="markdown" forceMount className="mt-6 data-[state=inactive]:hidden">
+            <MarkdownConverter importedMarkdown={importedMarkdown} />
+          </TabsContent>
+
+          <TabsContent value="xlsx" forceMount className="mt-6 data-[state=inactive]:hidden">
+            <XlsxBuilder />
           </TabsContent>
 
-          <TabsContent value="markdown" className="mt-6">
-            <MarkdownConverter />
+          <TabsContent value="diff" forceMount className="mt-6 data-[state=inactive]:hidden">
+            <SheetDiffViewer />
           </TabsContent>
         </Tabs>
       </div>
@@ -0,0 +1,135 @@
+'use client'
+
+import { ArrowDown, ArrowUp, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import type { SheetExportOptions } from '@/lib/excel-converter'
+import { CLEANING_STEP_TYPES, type CleaningChange, type CleaningStepType } from '@/lib/value-cleaning'
+import { cn } from '@/lib/utils'
+
+const MAX_LISTED_CHANGES = 20
+
+export const CLEANING_STEP_LABELS: Record<CleaningStepType, { label: string; example: string }> = {
+  trim: { label: '앞뒤 공백 제거', example: '" 홍길동 " → "홍길동"' },
+  collapseWhitespace: { label: '연속 공백을 하나로', example: '"서울   강남구" → "서울 강남구"' },
+  fullWidthToHalfWidth: { label: '전각 문자를 반각으로', example: '"ＡＢＣ１２３" → "ABC123"' },
+  parseCurrency: { label: '금액을 숫자로', example: '"1,234원" → 1234' },
+  parseYesNo: { label: '예/아니오를 불리언으로', example: '"Y", "예" → true' },
+  emptyToNull: { label: '빈 문자열을 null로', example: '"" → null' },
+}
+
+interface CleaningStepsEditorProps {
+  sheetName: string
+  options: SheetExportOptions
+  onChange: (options: SheetExportOptions) => void
+  changes: CleaningChange[] // 정리로 바뀐 셀 (일부)
+  cleanedCellsCount: number
+}
+
+export function CleaningStepsEditor({ sheetName, options, onChange, changes, cleanedCellsCount }: CleaningStepsEditorProps) {
+  const steps = options.cleaningSteps ?? []
+  // 켠 단계는 적용 순서대로, 끈 단계는 그 아래에 권장 순서대로 표시합니다
+  const entries = [...steps, ...CLEANING_STEP_TYPES.filter(type => !steps.includes(type))]
+
+  const updateSteps = (next: CleaningStepType[]) => {
+    onChange({ ...options, cleaningSteps: next.length > 0 ? next : undefined })
+  }
+
+  const toggleStep = (type: CleaningStepType, enabled: boolean) => {
+    updateSteps(enabled ? [...steps, type] : steps.filter(step => step !== type))
+  }
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps]
+    const [step] = next.splice(index, 1)
+    next.splice(index + offset, 0, step)
+    updateSteps(next)
+  }
+
+  const idPrefix = `cleaning-steps-${sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')}`
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">값 정리</div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 text-xs"
+          onClick={() => updateSteps([])}
+          disabled={steps.length === 0}
+        >
+          <RotateCcw className="mr-1 h-3 w-3" />
+          초기화
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        {entries.map(type => {
+          const index = steps.indexOf(type)
+          const enabled = index !== -1
+          return (
+            <div key={type} className={cn('flex items-center gap-2', !enabled && 'opacity-60')}>
+              <span className="w-5 text-right text-xs text-muted-foreground">{enabled ? index + 1 : ''}</span>
+              <Checkbox
+                id={`${idPrefix}-${type}`}
+                checked={enabled}
+                onCheckedChange={(checked) => toggleStep(type, checked === true)}
+              />
+              <label htmlFor={`${idPrefix}-${type}`} className="text-xs flex-1 cursor-pointer">
+                {CLEANING_STEP_LABELS[type].label}
+                <span className="ml-2 font-mono text-muted-foreground">{CLEANING_STEP_LABELS[type].example}</span>
+              </label>
+              <div className="flex">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => moveStep(index, -1)}
+                  disabled={!enabled || index === 0}
+                  title="먼저 적용"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => moveStep(index, 1)}
+                  disabled={!enabled || index === steps.length - 1}
+                  title="나중에 적용"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {steps.length > 0 && (
+        <div className="p-3 bg-muted/50 rounded-md space-y-2">
+          <div className="text-xs font-medium">
+            바뀌는 셀 {cleanedCellsCount.toLocaleString()}개
+          </div>
+          {changes.length > 0 && (
+            <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+              {changes.slice(0, MAX_LISTED_CHANGES).map((change, index) => (
+                <li key={index} className="font-mono">
+                  {change.row}행 · {change.column} · {JSON.stringify(change.before ?? null)} → {JSON.stringify(change.after)}
+                </li>
+              ))}
+            </ul>
+          )}
+          {cleanedCellsCount > MAX_LISTED_CHANGES && (
+            <p className="text-xs text-muted-foreground">+{(cleanedCellsCount - MAX_LISTED_CHANGES).toLocaleString()}개 더...</p>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        켠 단계는 위에서부터 순서대로 모든 형식의 내보내기 전에 텍스트 셀에 적용되며, 열 타입 추론과 중복 행 판정도 정리한 값을 기준으로 합니다. 금액은 &quot;원&quot;, &quot;₩&quot; 또는 천 단위 쉼표가 있는 값만 숫자로 바꾸므로 &quot;00123&quot; 같은 코드는 그대로 유지됩니다. 설정은 열 매핑 프리셋에 함께 저장됩니다.
+      </p>
+    </div>
+  )
+}
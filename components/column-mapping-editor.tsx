@@ -0,0 +1,268 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, RotateCcw, Save, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { ColumnMapping, ColumnType, SheetExportOptions, ValueMode } from '@/lib/excel-converter'
+import { createColumnPreset, matchesColumnPreset, PRESET_OPTION_KEYS, type ColumnMappingPreset } from '@/lib/column-presets'
+import { cn } from '@/lib/utils'
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  number: '숫자',
+  boolean: '불리언',
+  date: '날짜',
+  datetime: '날짜/시간',
+  time: '시각',
+  duration: '기간',
+  text: '텍스트',
+  mixed: '혼합 (변환 안 함)',
+  empty: '빈 열',
+}
+
+const OVERRIDABLE_TYPES: ColumnType[] = ['number', 'boolean', 'date', 'datetime', 'time', 'duration', 'text', 'mixed']
+
+export const VALUE_MODE_LABELS: Record<ValueMode, string> = {
+  raw: '원래 값',
+  formatted: '표시 형식',
+}
+
+interface ColumnMappingEditorProps {
+  sheetName: string
+  sourceColumns: Array<{ key: string; inferredType: ColumnType }>
+  options: SheetExportOptions
+  onChange: (options: SheetExportOptions) => void
+  presets: ColumnMappingPreset[]
+  onPresetsChange: (presets: ColumnMappingPreset[]) => void
+}
+
+export function ColumnMappingEditor({ sheetName, sourceColumns, options, onChange, presets, onPresetsChange }: ColumnMappingEditorProps) {
+  const [presetName, setPresetName] = useState('')
+
+  // 저장된 매핑 순서를 따르고, 매핑에 없는 열은 원래 순서대로 뒤에 붙입니다
+  const sourceKeys = sourceColumns.map(column => column.key)
+  const mapped = (options.columnMapping ?? []).filter(column => sourceKeys.includes(column.source))
+  const entries: ColumnMapping[] = [
+    ...mapped,
+    ...sourceKeys
+      .filter(key => !mapped.some(column => column.source === key))
+      .map(key => ({ source: key, target: '', include: true })),
+  ]
+  const inferredTypes = new Map(sourceColumns.map(column => [column.key, column.inferredType]))
+
+  const outputNames = entries.filter(entry => entry.include).map(entry => entry.target.trim() || entry.source)
+  const duplicateNames = new Set(outputNames.filter((name, i) => outputNames.indexOf(name) !== i))
+
+  const updateEntries = (next: ColumnMapping[]) => {
+    onChange({ ...options, columnMapping: next })
+  }
+
+  const updateEntry = (index: number, changes: Partial<ColumnMapping>) => {
+    updateEntries(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)))
+  }
+
+  const moveEntry = (index: number, offset: number) => {
+    const next = [...entries]
+    const [entry] = next.splice(index, 1)
+    next.splice(index + offset, 0, entry)
+    updateEntries(next)
+  }
+
+  const updateTypeOverride = (key: string, value: string) => {
+    const overrides = { ...options.columnTypeOverrides }
+    if (value === 'auto') {
+      delete overrides[key]
+    } else {
+      overrides[key] = value as ColumnType
+    }
+    onChange({ ...options, columnTypeOverrides: overrides })
+  }
+
+  const updateValueMode = (key: string, value: string) => {
+    const modes = { ...options.columnValueModes }
+    if (value === 'sheet') {
+      delete modes[key]
+    } else {
+      modes[key] = value as ValueMode
+    }
+    onChange({ ...options, columnValueModes: modes })
+  }
+
+  const handleSavePreset = () => {
+    const preset = createColumnPreset(presetName, sourceKeys, { ...options, columnMapping: entries })
+    onPresetsChange([...presets.filter(saved => saved.name !== preset.name), preset])
+    setPresetName('')
+  }
+
+  const handleApplyPreset = (preset: ColumnMappingPreset) => {
+    // 범위 등 프리셋에 없는 옵션은 유지합니다
+    onChange({
+      ...options,
+      ...Object.fromEntries(PRESET_OPTION_KEYS.map(key => [key, undefined])),
+      ...preset.options,
+    })
+  }
+
+  const idPrefix = `column-mapping-${sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')}`
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">열 매핑</div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange({ ...options, columnMapping: undefined, columnTypeOverrides: undefined, columnValueModes: undefined })}
+          disabled={!options.columnMapping && !options.columnTypeOverrides && !options.columnValueModes}
+        >
+          <RotateCcw className="mr-1 h-3 w-3" />
+          초기화
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">열이 없습니다.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto space-y-1 pr-1">
+          {entries.map((entry, index) => {
+            const outputName = entry.target.trim() || entry.source
+            return (
+              <div
+                key={entry.source}
+                className={cn('flex items-center gap-2', !entry.include && 'opacity-50')}
+              >
+                <div className="flex">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => moveEntry(index, -1)}
+                    disabled={index === 0}
+                    title="위로 이동"
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => moveEntry(index, 1)}
+                    disabled={index === entries.length - 1}
+                    title="아래로 이동"
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </div>
+                <Checkbox
+                  id={`${idPrefix}-${index}`}
+                  checked={entry.include}
+                  onCheckedChange={(checked) => updateEntry(index, { include: checked === true })}
+                  title="내보내기에 포함"
+                />
+                <label htmlFor={`${idPrefix}-${index}`} className="text-xs truncate w-32 cursor-pointer" title={entry.source}>
+                  {entry.source}
+                </label>
+                <Input
+                  placeholder={entry.source}
+                  value={entry.target}
+                  onChange={(e) => updateEntry(index, { target: e.target.value })}
+                  disabled={!entry.include}
+                  className={cn('h-7 text-xs flex-1', entry.include && duplicateNames.has(outputName) && 'border-destructive')}
+                />
+                <Select
+                  value={options.columnTypeOverrides?.[entry.source] ?? 'auto'}
+                  onValueChange={(value) => updateTypeOverride(entry.source, value)}
+                  disabled={!entry.include}
+                >
+                  <SelectTrigger className="h-7 w-[150px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">자동 ({COLUMN_TYPE_LABELS[inferredTypes.get(entry.source) ?? 'empty']})</SelectItem>
+                    {OVERRIDABLE_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{COLUMN_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={options.columnValueModes?.[entry.source] ?? 'sheet'}
+                  onValueChange={(value) => updateValueMode(entry.source, value)}
+                  disabled={!entry.include}
+                >
+                  <SelectTrigger className="h-7 w-[110px] text-xs" title="셀 값 형식">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sheet">시트 설정</SelectItem>
+                    {(Object.keys(VALUE_MODE_LABELS) as ValueMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{VALUE_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {duplicateNames.size > 0 ? (
+        <p className="text-xs text-destructive">
+          내보낼 열 이름이 중복됩니다: {[...duplicateNames].join(', ')} (JSON에서는 뒤의 열 값만 남습니다)
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          체크를 해제한 열은 내보내지 않으며, 이름과 순서는 모든 형식에 적용됩니다. 타입은 JSON 값 변환, SQL, Markdown에 사용되며, 표시 형식으로 내보내는 열은 텍스트로 취급합니다.
+        </p>
+      )}
+
+      <div className="pt-3 border-t space-y-2">
+        <div className="text-sm font-medium">매핑 프리셋</div>
+        <div className="flex gap-2">
+          <Input
+            placeholder="프리셋 이름 (예: 주간 거래처 보고서)"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <Button size="sm" variant="outline" className="h-8" onClick={handleSavePreset} disabled={!presetName.trim()}>
+            <Save className="mr-1 h-3 w-3" />
+            저장
+          </Button>
+        </div>
+        {presets.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {presets.map(preset => {
+              const matches = matchesColumnPreset(sourceKeys, preset)
+              return (
+                <div key={preset.name} className="flex items-center rounded-md border text-xs">
+                  <button
+                    type="button"
+                    className={cn('px-2 py-1 hover:bg-muted', matches && 'font-semibold text-primary')}
+                    onClick={() => handleApplyPreset(preset)}
+                    title={matches ? '이 시트와 열이 일치하는 프리셋입니다. 클릭하여 적용' : '클릭하여 적용'}
+                  >
+                    {preset.name}
+                  </button>
+                  <button
+                    type="button"
+                    className="px-1 py-1 border-l hover:bg-muted"
+                    onClick={() => onPresetsChange(presets.filter(saved => saved.name !== preset.name))}
+                    title="프리셋 삭제"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          프리셋은 브라우저에 저장되며, 열 구성이 같은 시트가 있는 파일을 업로드하면 자동으로 적용됩니다.
+        </p>
+      </div>
+    </div>
+  )
+}
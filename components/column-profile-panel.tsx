@@ -0,0 +1,115 @@
+'use client'
+
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { downloadFile } from '@/lib/excel-converter'
+import { buildColumnProfileJSON, buildColumnProfileMarkdown, type ColumnProfile } from '@/lib/column-profile'
+import { cn } from '@/lib/utils'
+
+interface ColumnProfilePanelProps {
+  sheetName: string
+  fileName: string // 다운로드 파일 이름 (확장자 제외)
+  profiles: ColumnProfile[]
+}
+
+function formatStat(value: number | undefined): string {
+  if (value === undefined) return ''
+  return value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+}
+
+export function ColumnProfilePanel({ sheetName, fileName, profiles }: ColumnProfilePanelProps) {
+  if (profiles.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">프로파일할 열이 없습니다.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          첫 행을 헤더로 보고 시트 전체 데이터 행 {profiles[0].count.toLocaleString()}개를 분석한 결과입니다 (헤더 설정과 열 매핑은 반영하지 않음).
+        </p>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => downloadFile(buildColumnProfileJSON(sheetName, profiles), `${fileName}_프로파일.json`, 'application/json;charset=utf-8;')}
+          >
+            <Download className="mr-2 h-3 w-3" />
+            JSON
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => downloadFile(buildColumnProfileMarkdown(sheetName, profiles), `${fileName}_프로파일.md`, 'text/markdown;charset=utf-8;')}
+          >
+            <Download className="mr-2 h-3 w-3" />
+            Markdown
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <Table>
+          <TableHeader className="sticky top-0 bg-background z-10">
+            <TableRow>
+              <TableHead className="bg-muted/50 whitespace-nowrap">열</TableHead>
+              <TableHead className="bg-muted/50 whitespace-nowrap">타입</TableHead>
+              <TableHead className="bg-muted/50 whitespace-nowrap">빈 값</TableHead>
+              <TableHead className="bg-muted/50 whitespace-nowrap text-right">고유 값</TableHead>
+              <TableHead className="bg-muted/50 whitespace-nowrap text-right">최솟값</TableHead>
+              <TableHead className="bg-muted/50 whitespace-nowrap text-right">최댓값</TableHead>
+              <TableHead className="bg-muted/50 whitespace-nowrap text-right">평균</TableHead>
+              <TableHead className="bg-muted/50 whitespace-nowrap text-right">중앙값</TableHead>
+              <TableHead className="bg-muted/50 whitespace-nowrap">가장 긴 문자열</TableHead>
+              <TableHead className="bg-muted/50 whitespace-nowrap min-w-[240px]">상위 값 (최대 10개)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {profiles.map((profile, index) => (
+              <TableRow key={index}>
+                <TableCell className="font-medium whitespace-nowrap">{profile.key}</TableCell>
+                <TableCell className="text-xs text-blue-600 dark:text-blue-400">{profile.type}</TableCell>
+                <TableCell className="whitespace-nowrap">
+                  <div className="text-xs">{(profile.nullRate * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%</div>
+                  <div className="mt-1 h-1.5 w-16 rounded bg-muted overflow-hidden">
+                    <div
+                      className={cn('h-full', profile.nullRate > 0.5 ? 'bg-destructive' : 'bg-amber-400')}
+                      style={{ width: `${profile.nullRate * 100}%` }}
+                    />
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{profile.distinctCount.toLocaleString()}</TableCell>
+                <TableCell className="text-right whitespace-nowrap font-mono text-xs">
+                  {profile.dateRange?.min ?? formatStat(profile.numeric?.min)}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap font-mono text-xs">
+                  {profile.dateRange?.max ?? formatStat(profile.numeric?.max)}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap font-mono text-xs">{formatStat(profile.numeric?.mean)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap font-mono text-xs">{formatStat(profile.numeric?.median)}</TableCell>
+                <TableCell className="text-xs max-w-[200px]">
+                  {profile.longestText && (
+                    <span className="block truncate" title={profile.longestText.value}>
+                      {profile.longestText.value}
+                      <span className="text-muted-foreground"> ({profile.longestText.length}자)</span>
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {profile.topValues.map(({ value, count }, valueIndex) => (
+                      <span key={valueIndex} className="px-1.5 py-0.5 rounded bg-muted text-xs max-w-[160px] truncate" title={`${value} (${count}개)`}>
+                        {value} <span className="text-muted-foreground">{count.toLocaleString()}</span>
+                      </span>
+                    ))}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { ColumnType, SheetExportOptions } from '@/lib/excel-converter'
+import type { DuplicateMode } from '@/lib/duplicate-rows'
+import { cn } from '@/lib/utils'
+
+export const DUPLICATE_MODE_LABELS: Record<DuplicateMode, string> = {
+  keepAll: '모두 내보내기 (감지만)',
+  keepFirst: '첫 번째 행만 유지',
+  keepLast: '마지막 행만 유지',
+  dropAll: '중복된 행 모두 제외',
+}
+
+interface DuplicateRowsEditorProps {
+  sheetName: string
+  sourceColumns: Array<{ key: string; inferredType: ColumnType }>
+  options: SheetExportOptions
+  onChange: (options: SheetExportOptions) => void
+  groupCount: number // 현재 기준으로 찾은 중복 묶음 수
+  rowCount: number // 중복 묶음에 속한 행 수
+}
+
+export function DuplicateRowsEditor({ sheetName, sourceColumns, options, onChange, groupCount, rowCount }: DuplicateRowsEditorProps) {
+  const keys = options.duplicateKeys ?? []
+  const sourceKeys = new Set(sourceColumns.map(column => column.key))
+
+  const toggleKey = (key: string) => {
+    const next = keys.includes(key) ? keys.filter(existing => existing !== key) : [...keys, key]
+    onChange({ ...options, duplicateKeys: next.length > 0 ? next : undefined })
+  }
+
+  const idPrefix = `duplicate-rows-${sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')}`
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <label htmlFor={`${idPrefix}-mode`} className="text-sm font-medium">
+          중복 행 ({groupCount.toLocaleString()}개 묶음 · {rowCount.toLocaleString()}행)
+        </label>
+        <Select
+          value={options.duplicateMode ?? 'keepAll'}
+          onValueChange={(value) => onChange({ ...options, duplicateMode: value === 'keepAll' ? undefined : value as DuplicateMode })}
+        >
+          <SelectTrigger id={`${idPrefix}-mode`} className="h-8 w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DUPLICATE_MODE_LABELS) as DuplicateMode[]).map(mode => (
+              <SelectItem key={mode} value={mode}>{DUPLICATE_MODE_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <button
+          type="button"
+          className={cn(
+            'px-2 py-0.5 rounded border text-xs',
+            keys.length === 0 ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-muted'
+          )}
+          onClick={() => onChange({ ...options, duplicateKeys: undefined })}
+        >
+          모든 열
+        </button>
+        {sourceColumns.map(column => (
+          <button
+            key={column.key}
+            type="button"
+            className={cn(
+              'px-2 py-0.5 rounded border text-xs max-w-[160px] truncate',
+              keys.includes(column.key) ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-muted'
+            )}
+            onClick={() => toggleKey(column.key)}
+            title={column.key}
+          >
+            {column.key}
+          </button>
+        ))}
+        {keys.filter(key => !sourceKeys.has(key)).map(key => (
+          <button
+            key={key}
+            type="button"
+            className="px-2 py-0.5 rounded border text-xs line-through opacity-50"
+            onClick={() => toggleKey(key)}
+            title="현재 헤더 설정에 없는 열입니다 (클릭하여 제거)"
+          >
+            {key}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        기준 열을 선택하면 그 열의 값이 모두 같은 행을 중복으로 봅니다 (예: 고객 ID). 선택하지 않으면 모든 열의 값이 같은 행을 찾으며, 기준 열이 모두 빈 행은 중복으로 보지 않습니다. 미리보기에서 중복 묶음을 확인할 수 있습니다.
+      </p>
+    </div>
+  )
+}
@@ -1,122 +1,596 @@
 'use client'
 
-import { useState, useRef, useMemo } from 'react'
-import { Upload, FileSpreadsheet, Download, Loader2, CheckCircle2, AlertCircle, Eye, ChevronLeft, ChevronRight, FileText, Info, Search, ArrowUpDown } from 'lucide-react'
+import { useState, useRef, useMemo, useEffect } from 'react'
+import { Upload, FileSpreadsheet, Download, Loader2, CheckCircle2, AlertCircle, Eye, ChevronLeft, ChevronRight, FileText, Info, Search, ArrowUpDown, Settings2, X, FileCode, Link2, MessageSquare, ShieldAlert, BarChart3, Copy } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { analyzeExcel, convertSheetToCSV, convertSheetToJSON, downloadFilesAsZip, downloadFile, formatFileSize, type ExcelData } from '@/lib/excel-converter'
+import { DEFAULT_CSV_DIALECT, SPREADSHEET_EXTENSIONS, downloadFile, downloadFilesAsZip, formatFileSize, unflattenRecord, type AnalyzeProgress, type CSVDialect, type ExcelSummary, type SheetExportOptions, type SheetInfo, type SheetPreview } from '@/lib/excel-converter'
+import { ExcelWorkerClient, isCancelledError } from '@/lib/excel-worker-client'
+import { DEFAULT_SQL_BATCH_SIZE, type SQLDialect, type SQLExportOptions, type SQLTableMapping } from '@/lib/sql-generator'
+import { buildWorkbookJSON, SHEET_NAME_KEY, type WorkbookJSONLayout } from '@/lib/workbook-json-generator'
+import { buildValidationReport, type ValidationIssue } from '@/lib/column-validation'
+import { DELIMITED_TEXT_EXTENSIONS, isDelimitedTextFile, type DelimitedText } from '@/lib/delimited-text'
+import * as XLSX from 'xlsx'
+import { SheetOptions } from '@/components/sheet-options'
+import { VALIDATION_RULE_LABELS } from '@/components/validation-rules-editor'
+import { DUPLICATE_MODE_LABELS } from '@/components/duplicate-rows-editor'
+import { ColumnProfilePanel } from '@/components/column-profile-panel'
+import { TextImportDialog, type PendingTextFile } from '@/components/text-import-dialog'
+import type { MarkdownDocument } from '@/components/markdown-converter'
+import { loadColumnPresets, matchesColumnPreset, saveColumnPresets, type ColumnMappingPreset } from '@/lib/column-presets'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { cn } from '@/lib/utils'
 
 const ITEMS_PER_PAGE = 5
 const PREVIEW_ROWS = 10
+const PREVIEW_DIALOG_ROWS = 50
+const RESHAPE_PREVIEW_ROWS = 5
 
-export function ExcelConverter() {
-  const [excelData, setExcelData] = useState<ExcelData | null>(null)
+type ExportFile = { name: string; content: string | Uint8Array; mimeType: string }
+
+type ExportFormat = 'csv' | 'json' | 'nested-json' | 'ndjson' | 'sql' | 'markdown'
+
+const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'nested-json', label: '중첩 JSON' },
+  { value: 'ndjson', label: 'NDJSON' },
+  { value: 'sql', label: 'SQL' },
+  { value: 'markdown', label: 'Markdown' },
+]
+
+const FORMAT_LABELS = Object.fromEntries(EXPORT_FORMATS.map(format => [format.value, format.label])) as Record<ExportFormat, string>
+
+const CSV_DIALECT_STORAGE_KEY = 'csv_dialect'
+
+const CSV_DELIMITER_LABELS: Record<CSVDialect['delimiter'], string> = {
+  ',': '쉼표 (,)',
+  '\t': '탭 (TSV)',
+  ';': '세미콜론 (;)',
+  '|': '파이프 (|)',
+}
+
+const CSV_QUOTE_LABELS: Record<CSVDialect['quote'], string> = {
+  minimal: '필요할 때만',
+  all: '모든 값',
+  nonnumeric: '숫자가 아닌 값',
+}
+
+const CSV_LINE_ENDING_LABELS: Record<CSVDialect['lineEnding'], string> = {
+  '\n': 'LF (macOS/Linux)',
+  '\r\n': 'CRLF (Windows)',
+}
+
+const CSV_ENCODING_LABELS: Record<CSVDialect['encoding'], string> = {
+  'utf-8': 'UTF-8',
+  cp949: 'CP949 (EUC-KR)',
+}
+
+// JSON 전체 다운로드 방식 (zip은 시트별 파일)
+const WORKBOOK_JSON_LAYOUT_LABELS: Record<'zip' | WorkbookJSONLayout, string> = {
+  zip: '시트별 파일 (ZIP)',
+  'by-sheet': '하나의 JSON (시트 이름별)',
+  flat: '하나의 JSON (평면 배열)',
+}
+
+// 검증 규칙을 위반한 시트를 내보낼 때의 동작
+type ValidationAction = 'warn' | 'block'
+
+const VALIDATION_ACTION_LABELS: Record<ValidationAction, string> = {
+  warn: '경고 후 내보내기 (보고서 포함)',
+  block: '내보내기 중단',
+}
+
+const SQL_DIALECT_LABELS: Record<SQLDialect, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite',
+}
+
+/**
+ * Worker에서 내보내기와 같은 옵션으로 시트 미리보기 데이터를 불러옵니다
+ * 시트나 옵션이 바뀌면 다시 불러오며, 불러오는 동안에는 null입니다
+ */
+function useSheetPreview(
+  client: ExcelWorkerClient,
+  sheetName: string | null,
+  options: SheetExportOptions | undefined,
+  maxRows: number
+): SheetPreview | null {
+  const [preview, setPreview] = useState<SheetPreview | null>(null)
+
+  useEffect(() => {
+    setPreview(null)
+    if (!sheetName) return
+
+    let ignore = false
+    client.call('getSheetPreview', sheetName, options, maxRows)
+      .then(result => {
+        if (!ignore) setPreview(result)
+      })
+      .catch(() => {
+        // 취소되었거나 워크북이 해제된 경우 미리보기를 비워 둡니다
+      })
+
+    return () => {
+      ignore = true
+    }
+  }, [client, sheetName, options, maxRows])
+
+  return preview
+}
+
+/**
+ * Worker에서 시트를 SQL로 내보낼 때의 테이블/열 이름 매핑을 불러옵니다
+ * 시트가 없으면 불러오지 않으며, 불러오는 동안에는 null입니다
+ */
+function useSQLTableMapping(
+  client: ExcelWorkerClient,
+  sheetName: string | null,
+  options: SheetExportOptions | undefined,
+  sqlOptions: SQLExportOptions
+): SQLTableMapping | null {
+  const [mapping, setMapping] = useState<SQLTableMapping | null>(null)
+
+  useEffect(() => {
+    setMapping(null)
+    if (!sheetName) return
+
+    let ignore = false
+    client.call('describeSQLTable', sheetName, options, sqlOptions)
+      .then(result => {
+        if (!ignore) setMapping(result)
+      })
+      .catch(() => {
+        // 취소되었거나 워크북이 해제된 경우 매핑을 비워 둡니다
+      })
+
+    return () => {
+      ignore = true
+    }
+  }, [client, sheetName, options, sqlOptions])
+
+  return mapping
+}
+
+interface ExcelConverterProps {
+  onOpenInMarkdown?: (markdownDocument: MarkdownDocument) => void // Markdown 표를 Markdown 변환기로 넘깁니다
+}
+
+export function ExcelConverter({ onOpenInMarkdown }: ExcelConverterProps) {
+  const [workerClient] = useState(() => new ExcelWorkerClient())
+  const [excelData, setExcelData] = useState<ExcelSummary | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [selectedFormat, setSelectedFormat] = useState<'csv' | 'json'>('csv')
+  const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('csv')
   const [currentPage, setCurrentPage] = useState(1)
   const [previewSheetIndex, setPreviewSheetIndex] = useState<number | null>(null)
   const [downloadProgress, setDownloadProgress] = useState<{ current: number; total: number } | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [sortBy, setSortBy] = useState<'name' | 'rowCount' | 'columnCount' | 'nonEmptyRowsCount'>('name')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
+  const [sheetOptions, setSheetOptions] = useState<Record<string, SheetExportOptions>>({})
+  const [expandedSheet, setExpandedSheet] = useState<string | null>(null)
+  const [includeSchema, setIncludeSchema] = useState(false)
+  const [workbookJSONLayout, setWorkbookJSONLayout] = useState<WorkbookJSONLayout | null>(null)
+  const [sqlOptions, setSqlOptions] = useState<SQLExportOptions>({ dialect: 'postgresql', batchSize: DEFAULT_SQL_BATCH_SIZE })
+  const [analyzeProgress, setAnalyzeProgress] = useState<AnalyzeProgress | null>(null)
+  const [rangeSelection, setRangeSelection] = useState<{ start: XLSX.CellAddress; end: XLSX.CellAddress } | null>(null)
+  const [isSelectingRange, setIsSelectingRange] = useState(false)
+  const [csvDialect, setCsvDialect] = useState<CSVDialect>(DEFAULT_CSV_DIALECT)
+  const [columnPresets, setColumnPresets] = useState<ColumnMappingPreset[]>([])
+  const [appliedPresets, setAppliedPresets] = useState<Record<string, string>>({})
+  const [validationAction, setValidationAction] = useState<ValidationAction>('warn')
+  const [validationWarnings, setValidationWarnings] = useState<Record<string, number>>({})
+  const [pendingTextFile, setPendingTextFile] = useState<PendingTextFile | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const downloadCancelledRef = useRef(false)
+
+  // 컴포넌트가 사라지면 Worker와 워크북을 해제합니다
+  useEffect(() => () => workerClient.cancel(), [workerClient])
+
+  // 로컬 스토리지에서 마지막으로 사용한 CSV 형식 불러오기
+  useEffect(() => {
+    const savedDialect = localStorage.getItem(CSV_DIALECT_STORAGE_KEY)
+    if (!savedDialect) return
+
+    try {
+      setCsvDialect({ ...DEFAULT_CSV_DIALECT, ...JSON.parse(savedDialect) })
+    } catch {
+      localStorage.removeItem(CSV_DIALECT_STORAGE_KEY)
+    }
+  }, [])
+
+  useEffect(() => {
+    setColumnPresets(loadColumnPresets())
+  }, [])
+
+  /**
+   * 파일을 올릴 때와 같은 방법으로 시트의 열 키를 구해 프리셋과 비교합니다
+   */
+  const matchesSheetPreset = async (sheetName: string, preset: ColumnMappingPreset) => {
+    const headers = await workerClient.call('getSheetHeaders', sheetName, preset.options)
+    return matchesColumnPreset(headers, preset)
+  }
+
+  const handleColumnPresetsChange = async (presets: ColumnMappingPreset[]) => {
+    setColumnPresets(presets)
+    saveColumnPresets(presets)
+
+    // 새로 저장한 프리셋이 다음에 같은 시트를 올릴 때 자동으로 적용되는지 확인합니다
+    const saved = presets.filter(preset => !columnPresets.includes(preset))
+    if (!expandedSheet || saved.length === 0) return
+    for (const preset of saved) {
+      if (!(await matchesSheetPreset(expandedSheet, preset))) {
+        setError(`프리셋 "${preset.name}"은(는) 셀 범위처럼 프리셋에 저장되지 않는 옵션에 따라 열 구성이 달라져, 파일을 올릴 때 자동으로 적용되지 않습니다`)
+      }
+    }
+  }
+
+  /**
+   * 열 구성이 저장된 프리셋과 같은 시트에 프리셋 옵션을 적용합니다
+   * @returns 시트 이름별 적용한 옵션과 프리셋 이름
+   */
+  const findPresetOptions = async (summary: ExcelSummary) => {
+    const options: Record<string, SheetExportOptions> = {}
+    const presetNames: Record<string, string> = {}
+
+    for (const sheet of summary.sheets) {
+      if (sheet.rowCount === 0) continue
+      for (const preset of columnPresets) {
+        if (await matchesSheetPreset(sheet.name, preset)) {
+          options[sheet.name] = { ...preset.options }
+          presetNames[sheet.name] = preset.name
+          break
+        }
+      }
+    }
+
+    return { options, presetNames }
+  }
+
+  const handleCsvDialectChange = (changes: Partial<CSVDialect>) => {
+    const dialect = { ...csvDialect, ...changes }
+    setCsvDialect(dialect)
+    localStorage.setItem(CSV_DIALECT_STORAGE_KEY, JSON.stringify(dialect))
+  }
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
 
-    const validExtensions = ['.xlsx', '.xls', '.xlsm']
+    const validExtensions = [...SPREADSHEET_EXTENSIONS, ...DELIMITED_TEXT_EXTENSIONS]
     const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase()
     
     if (!validExtensions.includes(fileExtension)) {
-      setError('Excel 파일만 업로드 가능합니다 (.xlsx, .xls, .xlsm)')
+      setError(`스프레드시트 또는 CSV/TSV 파일만 업로드 가능합니다 (${validExtensions.join(', ')})`)
       return
     }
 
+    // CSV/TSV는 인코딩과 구분자를 확인한 뒤에 불러옵니다
+    if (isDelimitedTextFile(file.name)) {
+      setError(null)
+      setPendingTextFile({ file, bytes: new Uint8Array(await file.arrayBuffer()) })
+      return
+    }
+
+    await loadWorkbook(() => workerClient.load(file, setAnalyzeProgress))
+  }
+
+  const handleTextImportConfirm = async (file: File, source: DelimitedText) => {
+    setPendingTextFile(null)
+    await loadWorkbook(() => workerClient.loadText(file, source, setAnalyzeProgress))
+  }
+
+  const handleTextImportCancel = () => {
+    setPendingTextFile(null)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  /**
+   * Worker에 파일을 불러오고 분석 결과로 화면을 초기화합니다
+   * @param load - Worker에 파일을 불러오는 함수
+   */
+  const loadWorkbook = async (load: () => Promise<ExcelSummary>) => {
     setIsLoading(true)
     setError(null)
+    setAnalyzeProgress(null)
 
     try {
-      const data = await analyzeExcel(file)
+      const data = await load()
+      const presetMatches = await findPresetOptions(data)
       setExcelData(data)
       setCurrentPage(1)
       setPreviewSheetIndex(null)
       setSearchQuery('')
       setSortBy('name')
       setSortOrder('asc')
+      setSheetOptions(presetMatches.options)
+      setAppliedPresets(presetMatches.presetNames)
+      setValidationWarnings({})
+      setExpandedSheet(null)
     } catch (err) {
-      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다')
+      if (!isCancelledError(err)) {
+        setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다')
+      }
       setExcelData(null)
     } finally {
       setIsLoading(false)
+      setAnalyzeProgress(null)
+    }
+  }
+
+  const handleCancelAnalyze = () => {
+    // Worker를 종료하므로 이전에 불러온 워크북도 함께 해제됩니다
+    workerClient.cancel()
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+  }
+
+  /**
+   * 내보내기 전에 시트를 검증 규칙으로 검사합니다
+   * 위반이 있으면 중단 모드에서는 오류를 발생시키고, 경고 모드에서는 위반 건수를 경고로 표시합니다
+   * @returns 위반 목록
+   */
+  const checkSheetValidation = async (sheetName: string): Promise<ValidationIssue[]> => {
+    const issues = await workerClient.call('getValidationIssues', sheetName, sheetOptions[sheetName] ?? {})
+    if (issues.length === 0) return issues
+
+    if (validationAction === 'block') {
+      throw new Error(`'${sheetName}' 시트에 검증 규칙 위반이 ${issues.length.toLocaleString()}건 있어 내보내기를 중단했습니다`)
     }
+    setValidationWarnings(prev => ({ ...prev, [sheetName]: issues.length }))
+    return issues
   }
 
-  const handleDownload = async (sheetName: string, format: 'csv' | 'json') => {
+  /**
+   * 검증 규칙으로 검사한 뒤 시트 하나를 변환하여 ZIP에 넣을 파일 목록을 만듭니다
+   * 경고 모드에서 위반이 있으면 검증 보고서 파일을 함께 추가합니다
+   */
+  const buildValidatedSheetFiles = async (
+    sheetName: string,
+    format: ExportFormat,
+    folderName: string,
+    baseFileName: string
+  ): Promise<ExportFile[]> => {
+    const issues = await checkSheetValidation(sheetName)
+    const files = await buildSheetFiles(sheetName, format, folderName, baseFileName)
+
+    if (issues.length > 0) {
+      files.push({
+        name: `${folderName}/${baseFileName}_${sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')}_검증_보고서.json`,
+        content: buildValidationReport(sheetName, issues),
+        mimeType: 'application/json;charset=utf-8;',
+      })
+    }
+
+    return files
+  }
+
+  /**
+   * 시트 하나를 변환하여 ZIP에 넣을 파일 목록을 만듭니다
+   * JSON 타입 변환에 실패한 셀이 있으면 보고서 파일을, 스키마 옵션이 켜져 있으면
+   * JSON Schema와 TypeScript 타입 파일을 함께 추가합니다
+   */
+  const buildSheetFiles = async (
+    sheetName: string,
+    format: ExportFormat,
+    folderName: string,
+    baseFileName: string
+  ): Promise<ExportFile[]> => {
+    const safeSheetName = sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')
+    const options = sheetOptions[sheetName] ?? {}
+
+    if (format === 'csv') {
+      const isTSV = csvDialect.delimiter === '\t'
+      return [{
+        name: `${folderName}/${baseFileName}_${safeSheetName}.${isTSV ? 'tsv' : 'csv'}`,
+        content: await workerClient.call('convertSheetToCSVFile', sheetName, options, csvDialect),
+        mimeType: `${isTSV ? 'text/tab-separated-values' : 'text/csv'};charset=${csvDialect.encoding};`,
+      }]
+    }
+
+    if (format === 'markdown') {
+      return [{
+        name: `${folderName}/${baseFileName}_${safeSheetName}.md`,
+        content: await workerClient.call('convertSheetToMarkdown', sheetName, options),
+        mimeType: 'text/markdown;charset=utf-8;',
+      }]
+    }
+
+    if (format === 'sql') {
+      return [{
+        name: `${folderName}/${baseFileName}_${safeSheetName}.sql`,
+        content: await workerClient.call('convertSheetToSQL', sheetName, options, sqlOptions),
+        mimeType: 'application/sql;charset=utf-8;',
+      }]
+    }
+
+    const files: ExportFile[] = []
+
+    if (format === 'ndjson') {
+      files.push({
+        name: `${folderName}/${baseFileName}_${safeSheetName}.ndjson`,
+        content: await workerClient.call('convertSheetToNDJSON', sheetName, options),
+        mimeType: 'application/x-ndjson;charset=utf-8;',
+      })
+    } else {
+      files.push({
+        name: `${folderName}/${baseFileName}_${safeSheetName}.json`,
+        content: format === 'nested-json'
+          ? await workerClient.call('convertSheetToNestedJSON', sheetName, options)
+          : await workerClient.call('convertSheetToJSON', sheetName, options),
+        mimeType: 'application/json;charset=utf-8;',
+      })
+    }
+
+    // 스키마는 평면 JSON의 키 구조를 기준으로 생성됩니다
+    if (includeSchema && format === 'json') {
+      files.push(
+        {
+          name: `${folderName}/${baseFileName}_${safeSheetName}.schema.json`,
+          content: await workerClient.call('generateJSONSchema', sheetName, options),
+          mimeType: 'application/schema+json;charset=utf-8;',
+        },
+        {
+          name: `${folderName}/${baseFileName}_${safeSheetName}.types.ts`,
+          content: await workerClient.call('generateTypeScript', sheetName, options),
+          mimeType: 'text/plain;charset=utf-8;',
+        }
+      )
+    }
+
+    const issues = await workerClient.call('getCoercionIssues', sheetName, options)
+    if (issues.length > 0) {
+      files.push({
+        name: `${folderName}/${baseFileName}_${safeSheetName}_타입변환_보고서.json`,
+        content: JSON.stringify({ sheet: sheetName, failedCells: issues.length, issues }, null, 2),
+        mimeType: 'application/json;charset=utf-8;',
+      })
+    }
+
+    return files
+  }
+
+  const handleDownload = async (sheetName: string, format: ExportFormat) => {
     if (!excelData) return
 
     const baseFileName = excelData.fileName.replace(/\.[^/.]+$/, '')
     const safeSheetName = sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')
     const timestamp = new Date().getTime()
     const folderName = `${baseFileName}_변환파일_${timestamp}`
-    
-    let content: string
-    let fileName: string
-    let mimeType: string
+    setValidationWarnings({})
 
-    if (format === 'csv') {
-      content = convertSheetToCSV(excelData.workbook, sheetName)
-      fileName = `${folderName}/${baseFileName}_${safeSheetName}.csv`
-      mimeType = 'text/csv;charset=utf-8;'
-    } else {
-      content = convertSheetToJSON(excelData.workbook, sheetName)
-      fileName = `${folderName}/${baseFileName}_${safeSheetName}.json`
-      mimeType = 'application/json;charset=utf-8;'
+    try {
+      await downloadFilesAsZip(
+        await buildValidatedSheetFiles(sheetName, format, folderName, baseFileName),
+        `${baseFileName}_${safeSheetName}_${timestamp}.zip`
+      )
+    } catch (error) {
+      setError('다운로드 중 오류가 발생했습니다: ' + (error as Error).message)
     }
+  }
 
-    await downloadFilesAsZip(
-      [{ name: fileName, content, mimeType }],
-      `${baseFileName}_${safeSheetName}_${timestamp}.zip`
-    )
+  /**
+   * 미리보기 중인 시트를 검증 규칙으로 검사한 뒤 내보내기 설정(범위 등)대로 Markdown 표로 변환합니다
+   * 다운로드와 Markdown 변환기로 넘기기 모두 다른 형식과 같은 검증을 거칩니다
+   * 변환에 실패하거나 중단 모드에서 위반이 있으면 오류를 표시하고 null을 반환합니다
+   */
+  const buildMarkdownDocument = async (sheetName: string): Promise<MarkdownDocument | null> => {
+    if (!excelData) return null
+
+    const baseFileName = excelData.fileName.replace(/\.[^/.]+$/, '')
+    const safeSheetName = sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')
+    setError(null)
+    setValidationWarnings({})
+
+    try {
+      await checkSheetValidation(sheetName)
+      const markdown = await workerClient.call('convertSheetToMarkdown', sheetName, sheetOptions[sheetName] ?? {})
+      return { fileName: `${baseFileName}_${safeSheetName}`, markdown }
+    } catch (error) {
+      setError('Markdown 변환 중 오류가 발생했습니다: ' + (error as Error).message)
+      return null
+    }
+  }
+
+  const handleDownloadMarkdown = async (sheetName: string) => {
+    const markdownDocument = await buildMarkdownDocument(sheetName)
+    if (markdownDocument) {
+      downloadFile(markdownDocument.markdown, `${markdownDocument.fileName}.md`, 'text/markdown;charset=utf-8;')
+    }
+  }
+
+  const handleOpenInMarkdown = async (sheetName: string) => {
+    const markdownDocument = await buildMarkdownDocument(sheetName)
+    if (markdownDocument) {
+      onOpenInMarkdown?.(markdownDocument)
+    }
+  }
+
+  /**
+   * 모든 시트를 워크북 메타데이터(파일 이름, 시트 순서, 숨김 여부)와 함께 하나의 JSON 문서로 다운로드합니다
+   */
+  const handleDownloadWorkbookJSON = async (layout: WorkbookJSONLayout) => {
+    if (!excelData) return
+
+    setDownloadProgress({ current: 0, total: excelData.sheets.length })
+    setValidationWarnings({})
+    downloadCancelledRef.current = false
+
+    try {
+      const baseFileName = excelData.fileName.replace(/\.[^/.]+$/, '')
+      const timestamp = new Date().getTime()
+      const sheets: Array<{ info: SheetInfo; records: Record<string, any>[]; validationIssues: ValidationIssue[] }> = []
+
+      for (let i = 0; i < excelData.sheets.length; i++) {
+        if (downloadCancelledRef.current) {
+          setDownloadProgress(null)
+          return
+        }
+
+        const sheet = excelData.sheets[i]
+        // 경고 모드의 위반은 문서의 metadata.sheets[].validationIssues에 남깁니다
+        const validationIssues = await checkSheetValidation(sheet.name)
+        const records = await workerClient.call('getSheetRecords', sheet.name, sheetOptions[sheet.name] ?? {})
+        sheets.push({
+          info: sheet,
+          records: selectedFormat === 'nested-json' ? records.map(unflattenRecord) : records,
+          validationIssues,
+        })
+        setDownloadProgress({ current: i + 1, total: excelData.sheets.length })
+      }
+
+      downloadFile(
+        buildWorkbookJSON(excelData.fileName, sheets, layout),
+        `${baseFileName}_${timestamp}.json`,
+        'application/json;charset=utf-8;'
+      )
+      setDownloadProgress(null)
+    } catch (error) {
+      setError('다운로드 중 오류가 발생했습니다: ' + (error as Error).message)
+      setDownloadProgress(null)
+    }
   }
 
   const handleDownloadAll = async () => {
     if (!excelData) return
 
+    const isJSONFormat = selectedFormat === 'json' || selectedFormat === 'nested-json'
+    if (isJSONFormat && workbookJSONLayout) {
+      await handleDownloadWorkbookJSON(workbookJSONLayout)
+      return
+    }
+
     setDownloadProgress({ current: 0, total: excelData.sheets.length })
+    setValidationWarnings({})
+    downloadCancelledRef.current = false
 
     try {
       const baseFileName = excelData.fileName.replace(/\.[^/.]+$/, '')
       const timestamp = new Date().getTime()
       const folderName = `${baseFileName}_변환파일_${timestamp}`
 
-      const files: Array<{ name: string; content: string; mimeType: string }> = []
+      const files: ExportFile[] = []
 
       for (let i = 0; i < excelData.sheets.length; i++) {
-        const sheet = excelData.sheets[i]
-        const safeSheetName = sheet.name.replace(/[^a-zA-Z0-9가-힣]/g, '_')
-        
-        let content: string
-        let fileName: string
-        let mimeType: string
-
-        if (selectedFormat === 'csv') {
-          content = convertSheetToCSV(excelData.workbook, sheet.name)
-          fileName = `${folderName}/${baseFileName}_${safeSheetName}.csv`
-          mimeType = 'text/csv;charset=utf-8;'
-        } else {
-          content = convertSheetToJSON(excelData.workbook, sheet.name)
-          fileName = `${folderName}/${baseFileName}_${safeSheetName}.json`
-          mimeType = 'application/json;charset=utf-8;'
+        // 취소하면 남은 시트를 변환하지 않고 다운로드도 하지 않습니다
+        if (downloadCancelledRef.current) {
+          setDownloadProgress(null)
+          return
         }
 
-        files.push({ name: fileName, content, mimeType })
+        const sheet = excelData.sheets[i]
+        files.push(...await buildValidatedSheetFiles(sheet.name, selectedFormat, folderName, baseFileName))
         setDownloadProgress({ current: i + 1, total: excelData.sheets.length })
       }
 
@@ -129,12 +603,21 @@ export function ExcelConverter() {
     }
   }
 
+  const handleCancelDownload = () => {
+    downloadCancelledRef.current = true
+  }
+
   const handleReset = () => {
+    workerClient.cancel()
     setExcelData(null)
     setError(null)
     setCurrentPage(1)
     setPreviewSheetIndex(null)
     setDownloadProgress(null)
+    setSheetOptions({})
+    setAppliedPresets({})
+    setValidationWarnings({})
+    setExpandedSheet(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -181,6 +664,36 @@ export function ExcelConverter() {
     return sorted
   }, [excelData, searchQuery, sortBy, sortOrder])
 
+  // 미리보기 중인 시트는 내보내기와 같은 옵션으로 표시합니다
+  // 데이터는 미리보기 대화상자를 열 때 Worker에서 필요한 행만 불러옵니다
+  const previewSheetName = excelData && previewSheetIndex !== null ? excelData.sheets[previewSheetIndex]?.name ?? null : null
+  const previewTable = useSheetPreview(
+    workerClient,
+    previewSheetName,
+    previewSheetName ? sheetOptions[previewSheetName] : undefined,
+    PREVIEW_DIALOG_ROWS
+  )
+
+  // 중첩 JSON 형식이면 첫 행이 어떤 구조로 변환되는지 보여줍니다
+  const nestedShapePreview = selectedFormat === 'nested-json' && previewTable?.nestedSample
+    ? JSON.stringify(previewTable.nestedSample, null, 2)
+    : null
+
+  // SQL 형식이면 원래 시트 이름/헤더가 어떤 테이블/열 이름이 되는지 보여줍니다
+  const sqlTableMapping = useSQLTableMapping(
+    workerClient,
+    selectedFormat === 'sql' ? previewSheetName : null,
+    previewSheetName ? sheetOptions[previewSheetName] : undefined,
+    sqlOptions
+  )
+
+  const expandedSheetView = useSheetPreview(
+    workerClient,
+    excelData ? expandedSheet : null,
+    expandedSheet ? sheetOptions[expandedSheet] : undefined,
+    RESHAPE_PREVIEW_ROWS
+  )
+
   const totalPages = Math.ceil(filteredAndSortedSheets.length / ITEMS_PER_PAGE)
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE
   const endIndex = startIndex + ITEMS_PER_PAGE
@@ -193,6 +706,47 @@ export function ExcelConverter() {
     setCurrentPage(1)
   }
 
+  const handleSheetOptionsChange = (sheetName: string, options: SheetExportOptions) => {
+    setSheetOptions(prev => ({ ...prev, [sheetName]: options }))
+  }
+
+  // 미리보기 표에서 드래그한 셀 범위 (원본 시트 좌표)
+  const selectedRange = rangeSelection
+    ? {
+        s: { r: Math.min(rangeSelection.start.r, rangeSelection.end.r), c: Math.min(rangeSelection.start.c, rangeSelection.end.c) },
+        e: { r: Math.max(rangeSelection.start.r, rangeSelection.end.r), c: Math.max(rangeSelection.start.c, rangeSelection.end.c) },
+      }
+    : null
+  const selectedRangeText = selectedRange && !isSelectingRange ? XLSX.utils.encode_range(selectedRange) : null
+
+  const isCellInSelection = (r: number, c: number) =>
+    !!selectedRange && r >= selectedRange.s.r && r <= selectedRange.e.r && c >= selectedRange.s.c && c <= selectedRange.e.c
+
+  // 형태 변환으로 새로 만든 열(-1)은 원본 시트의 열이 아니므로 범위 선택에서 제외합니다
+  const handleSelectionStart = (r: number, c: number) => {
+    if (c < 0) return
+    setRangeSelection({ start: { r, c }, end: { r, c } })
+    setIsSelectingRange(true)
+  }
+
+  const handleSelectionMove = (r: number, c: number) => {
+    if (!isSelectingRange || c < 0) return
+    setRangeSelection(prev => (prev ? { ...prev, end: { r, c } } : prev))
+  }
+
+  // 표 밖에서 마우스를 놓아도 선택을 끝냅니다
+  useEffect(() => {
+    if (!isSelectingRange) return
+    const handleMouseUp = () => setIsSelectingRange(false)
+    window.addEventListener('mouseup', handleMouseUp)
+    return () => window.removeEventListener('mouseup', handleMouseUp)
+  }, [isSelectingRange])
+
+  const handleApplyRange = (sheetName: string, range: string | undefined) => {
+    handleSheetOptionsChange(sheetName, { ...sheetOptions[sheetName], range })
+    setRangeSelection(null)
+  }
+
   const handleSortChange = (value: string) => {
     if (value === sortBy) {
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')
@@ -219,7 +773,7 @@ export function ExcelConverter() {
             Excel 파일 업로드
           </CardTitle>
           <CardDescription>
-            변환할 Excel 파일을 선택하세요 (.xlsx, .xls, .xlsm)
+            변환할 파일을 선택하세요 ({[...SPREADSHEET_EXTENSIONS, ...DELIMITED_TEXT_EXTENSIONS].join(', ')})
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -227,7 +781,7 @@ export function ExcelConverter() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".xlsx,.xls,.xlsm"
+              accept={[...SPREADSHEET_EXTENSIONS, ...DELIMITED_TEXT_EXTENSIONS].join(',')}
               onChange={handleFileUpload}
               className="hidden"
               id="file-upload"
@@ -251,6 +805,30 @@ export function ExcelConverter() {
                 </>
               )}
             </Button>
+
+            {isLoading && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span>
+                    {analyzeProgress?.stage === 'sheet'
+                      ? `시트 분석 중... (${analyzeProgress.sheetName})`
+                      : '워크북을 읽는 중...'}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {analyzeProgress?.stage === 'sheet' && (
+                      <span>{analyzeProgress.current} / {analyzeProgress.total}</span>
+                    )}
+                    <Button variant="ghost" size="sm" className="h-6 px-2" onClick={handleCancelAnalyze}>
+                      <X className="mr-1 h-3 w-3" />
+                      취소
+                    </Button>
+                  </div>
+                </div>
+                <Progress
+                  value={analyzeProgress?.stage === 'sheet' ? (analyzeProgress.current / analyzeProgress.total) * 100 : 0}
+                />
+              </div>
+            )}
           </div>
 
           {error && (
@@ -262,6 +840,12 @@ export function ExcelConverter() {
         </CardContent>
       </Card>
 
+      <TextImportDialog
+        pending={pendingTextFile}
+        onConfirm={handleTextImportConfirm}
+        onCancel={handleTextImportCancel}
+      />
+
       {excelData && (
         <>
           <Card className="mb-6">
@@ -317,27 +901,252 @@ export function ExcelConverter() {
             </CardHeader>
             <CardContent>
               <div className="flex gap-2 mb-4">
-                <Button
-                  variant={selectedFormat === 'csv' ? 'default' : 'outline'}
-                  onClick={() => setSelectedFormat('csv')}
-                  className="flex-1"
-                >
-                  CSV
-                </Button>
-                <Button
-                  variant={selectedFormat === 'json' ? 'default' : 'outline'}
-                  onClick={() => setSelectedFormat('json')}
-                  className="flex-1"
+                {EXPORT_FORMATS.map(format => (
+                  <Button
+                    key={format.value}
+                    variant={selectedFormat === format.value ? 'default' : 'outline'}
+                    onClick={() => setSelectedFormat(format.value)}
+                    className="flex-1"
+                  >
+                    {format.label}
+                  </Button>
+                ))}
+              </div>
+
+              {selectedFormat === 'csv' && (
+                <div className="mb-4 space-y-3">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-1 block">구분자</label>
+                      <Select
+                        value={csvDialect.delimiter}
+                        onValueChange={(value) => handleCsvDialectChange({ delimiter: value as CSVDialect['delimiter'] })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(CSV_DELIMITER_LABELS) as CSVDialect['delimiter'][]).map(delimiter => (
+                            <SelectItem key={delimiter} value={delimiter}>{CSV_DELIMITER_LABELS[delimiter]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-1 block">따옴표</label>
+                      <Select
+                        value={csvDialect.quote}
+                        onValueChange={(value) => handleCsvDialectChange({ quote: value as CSVDialect['quote'] })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(CSV_QUOTE_LABELS) as CSVDialect['quote'][]).map(quote => (
+                            <SelectItem key={quote} value={quote}>{CSV_QUOTE_LABELS[quote]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-1 block">줄바꿈</label>
+                      <Select
+                        value={csvDialect.lineEnding}
+                        onValueChange={(value) => handleCsvDialectChange({ lineEnding: value as CSVDialect['lineEnding'] })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(CSV_LINE_ENDING_LABELS) as CSVDialect['lineEnding'][]).map(lineEnding => (
+                            <SelectItem key={lineEnding} value={lineEnding}>{CSV_LINE_ENDING_LABELS[lineEnding]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-1 block">인코딩</label>
+                      <Select
+                        value={csvDialect.encoding}
+                        onValueChange={(value) => handleCsvDialectChange({ encoding: value as CSVDialect['encoding'] })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(CSV_ENCODING_LABELS) as CSVDialect['encoding'][]).map(encoding => (
+                            <SelectItem key={encoding} value={encoding}>{CSV_ENCODING_LABELS[encoding]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex items-start space-x-3">
+                    <Checkbox
+                      id="csv-bom"
+                      checked={csvDialect.encoding === 'utf-8' && csvDialect.bom}
+                      onCheckedChange={(checked) => handleCsvDialectChange({ bom: checked === true })}
+                      disabled={csvDialect.encoding !== 'utf-8'}
+                    />
+                    <div className="flex-1">
+                      <label htmlFor="csv-bom" className="text-sm font-medium leading-none cursor-pointer">
+                        UTF-8 BOM 추가
+                      </label>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        한글 Windows의 Excel에서 CSV를 열 때 글자가 깨지지 않습니다. UTF-8을 읽지 못하는 시스템에는 CP949를 사용하세요 (CP949로 표현할 수 없는 문자는 ?로 바뀝니다). 선택한 형식은 다음 방문 때도 유지됩니다.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {selectedFormat === 'ndjson' && (
+                <p className="text-xs text-muted-foreground mb-4">
+                  한 줄에 행 하나씩 JSON 객체로 저장합니다 (JSON Lines). BigQuery 적재, jq, 로그 수집기 등 줄 단위 입력에 사용할 수 있습니다.
+                </p>
+              )}
+
+              {selectedFormat === 'sql' && (
+                <div className="mb-4 space-y-2">
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <div>
+                      <label className="text-xs text-muted-foreground mb-1 block">데이터베이스</label>
+                      <Select
+                        value={sqlOptions.dialect}
+                        onValueChange={(value) => setSqlOptions({ ...sqlOptions, dialect: value as SQLDialect })}
+                      >
+                        <SelectTrigger className="h-8 w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(SQL_DIALECT_LABELS) as SQLDialect[]).map(dialect => (
+                            <SelectItem key={dialect} value={dialect}>{SQL_DIALECT_LABELS[dialect]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label htmlFor="sql-batch-size" className="text-xs text-muted-foreground mb-1 block">
+                        INSERT 문당 행 수
+                      </label>
+                      <Input
+                        id="sql-batch-size"
+                        type="number"
+                        min={1}
+                        placeholder={String(DEFAULT_SQL_BATCH_SIZE)}
+                        value={sqlOptions.batchSize ?? ''}
+                        onChange={(e) => {
+                          const parsed = parseInt(e.target.value, 10)
+                          setSqlOptions({ ...sqlOptions, batchSize: isNaN(parsed) ? undefined : Math.max(1, parsed) })
+                        }}
+                        className="h-8 w-[180px]"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    시트마다 CREATE TABLE 문과 INSERT 문을 하나의 트랜잭션으로 생성합니다. 값은 열 타입에 맞게 변환되며, 한글 시트 이름과 헤더는 로마자 식별자로 바뀝니다. 변환된 이름은 시트 미리보기와 SQL 파일 상단 주석에서 확인할 수 있습니다.
+                  </p>
+                </div>
+              )}
+
+              {selectedFormat === 'markdown' && (
+                <p className="text-xs text-muted-foreground mb-4">
+                  시트를 GitHub-flavored Markdown 표로 변환합니다. 숫자 열은 오른쪽, 불리언 열은 가운데로 정렬됩니다. 시트 미리보기에서 범위를 지정하거나 결과를 Markdown 변환기로 보내 Notion/Obsidian에 저장할 수 있습니다.
+                </p>
+              )}
+
+              {selectedFormat === 'nested-json' && (
+                <p className="text-xs text-muted-foreground mb-4">
+                  &quot;address.city&quot;, &quot;tags[0]&quot; 같은 헤더를 중첩 객체와 배열로 변환합니다. 시트 미리보기에서 변환 결과의 구조를 확인할 수 있습니다.
+                </p>
+              )}
+
+              {(selectedFormat === 'json' || selectedFormat === 'nested-json') && (
+                <div className="mb-4 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <label htmlFor="workbook-json-layout" className="text-sm font-medium">전체 다운로드 방식</label>
+                    <Select
+                      value={workbookJSONLayout ?? 'zip'}
+                      onValueChange={(value) => setWorkbookJSONLayout(value === 'zip' ? null : value as WorkbookJSONLayout)}
+                    >
+                      <SelectTrigger id="workbook-json-layout" className="h-8 w-[220px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(WORKBOOK_JSON_LAYOUT_LABELS) as Array<'zip' | WorkbookJSONLayout>).map(layout => (
+                          <SelectItem key={layout} value={layout}>{WORKBOOK_JSON_LAYOUT_LABELS[layout]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {workbookJSONLayout && (
+                    <p className="text-xs text-muted-foreground">
+                      {workbookJSONLayout === 'flat'
+                        ? `모든 시트의 행을 하나의 배열(rows)로 합치고 각 행에 시트 이름(${SHEET_NAME_KEY})을 추가합니다.`
+                        : '시트 이름을 키로 하는 객체(sheets)에 시트별 행 배열을 담습니다.'}
+                      {' '}파일 이름, 시트 순서, 숨김 여부는 metadata에 포함되며, 스키마와 타입 변환 보고서는 생성하지 않습니다.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {selectedFormat === 'json' && !workbookJSONLayout && (
+                <div className="flex items-start space-x-3 mb-4">
+                  <Checkbox
+                    id="include-schema"
+                    checked={includeSchema}
+                    onCheckedChange={(checked) => setIncludeSchema(checked === true)}
+                  />
+                  <div className="flex-1">
+                    <label htmlFor="include-schema" className="text-sm font-medium leading-none cursor-pointer">
+                      JSON Schema 및 TypeScript 타입 함께 생성
+                    </label>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      시트마다 .schema.json (draft 2020-12)과 .types.ts 파일이 ZIP에 추가됩니다
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <div className="mb-4 flex items-center gap-3">
+                <label htmlFor="validation-action" className="text-sm font-medium">검증 규칙 위반 시</label>
+                <Select
+                  value={validationAction}
+                  onValueChange={(value) => setValidationAction(value as ValidationAction)}
                 >
-                  JSON
-                </Button>
+                  <SelectTrigger id="validation-action" className="h-8 w-[240px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(VALIDATION_ACTION_LABELS) as ValidationAction[]).map(action => (
+                      <SelectItem key={action} value={action}>{VALIDATION_ACTION_LABELS[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
+              {Object.keys(validationWarnings).length > 0 && (
+                <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-900 rounded-md flex items-start gap-2">
+                  <ShieldAlert className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+                  <p className="text-sm">
+                    검증 규칙을 위반한 시트를 내보냈습니다:{' '}
+                    {Object.entries(validationWarnings).map(([name, count]) => `${name} ${count.toLocaleString()}건`).join(', ')}
+                    {' '}(ZIP에는 시트별 검증 보고서가, 워크북 JSON 문서에는 metadata의 validationIssues가 포함되며 Markdown 파일에는 포함되지 않습니다)
+                  </p>
+                </div>
+              )}
+
               {downloadProgress && (
                 <div className="mb-4 space-y-2">
                   <div className="flex items-center justify-between text-sm">
                     <span>변환 진행 중...</span>
-                    <span>{downloadProgress.current} / {downloadProgress.total}</span>
+                    <div className="flex items-center gap-2">
+                      <span>{downloadProgress.current} / {downloadProgress.total}</span>
+                      <Button variant="ghost" size="sm" className="h-6 px-2" onClick={handleCancelDownload}>
+                        <X className="mr-1 h-3 w-3" />
+                        취소
+                      </Button>
+                    </div>
                   </div>
                   <Progress value={(downloadProgress.current / downloadProgress.total) * 100} />
                 </div>
@@ -351,7 +1160,9 @@ export function ExcelConverter() {
                   disabled={!!downloadProgress}
                 >
                   <Download className="mr-2 h-4 w-4" />
-                  전체 시트 {selectedFormat.toUpperCase()}로 다운로드 (ZIP)
+                  {(selectedFormat === 'json' || selectedFormat === 'nested-json') && workbookJSONLayout
+                    ? `전체 시트를 하나의 ${FORMAT_LABELS[selectedFormat]} 파일로 다운로드`
+                    : `전체 시트 ${FORMAT_LABELS[selectedFormat]}로 다운로드 (ZIP)`}
                 </Button>
                 <Button
                   onClick={handleReset}
@@ -427,161 +1238,478 @@ export function ExcelConverter() {
                     currentSheets.map((sheet) => {
                       const originalSheetIndex = excelData!.sheets.findIndex(s => s.name === sheet.name)
                       const originalSheet = excelData!.sheets[originalSheetIndex]
+                      const table = previewSheetIndex === originalSheetIndex ? previewTable : null
+                      const tablePreviewRows = table ? table.rows : []
+
+                      // 미리보기 셀에 표시할 검증 규칙 위반 메시지 (행 번호와 열 키 기준)
+                      const validationMessages = new Map<string, string[]>()
+                      for (const issue of table?.validationIssues ?? []) {
+                        const key = `${issue.row}:${issue.column}`
+                        validationMessages.set(key, [...(validationMessages.get(key) ?? []), `${VALIDATION_RULE_LABELS[issue.rule]}: ${issue.message}`])
+                      }
                       
                       return (
                         <div
                           key={sheet.name}
-                          className="flex items-center justify-between p-4 border rounded-md hover:bg-muted/50 transition-colors"
+                          className="p-4 border rounded-md hover:bg-muted/50 transition-colors"
                         >
-                          <div className="flex-1">
-                            <div className="flex items-center gap-3 mb-1">
-                              <FileText className="h-4 w-4 text-muted-foreground" />
-                              <p className="font-medium">{sheet.name}</p>
+                          <div className="flex items-center justify-between">
+                            <div className="flex-1">
+                              <div className="flex items-center gap-3 mb-1">
+                                <FileText className="h-4 w-4 text-muted-foreground" />
+                                <p className="font-medium">{sheet.name}</p>
+                                {sheet.visibility && sheet.visibility !== 'visible' && (
+                                  <span className="px-1.5 py-0.5 rounded bg-muted text-xs text-muted-foreground">
+                                    {sheet.visibility === 'veryHidden' ? '완전히 숨김' : '숨김'}
+                                  </span>
+                                )}
+                              </div>
+                              <p className="text-sm text-muted-foreground ml-7">
+                                {sheet.rowCount}행 × {sheet.columnCount}열
+                                {sheet.nonEmptyRowsCount !== undefined && (
+                                  <span className="ml-2">(데이터: {sheet.nonEmptyRowsCount}행)</span>
+                                )}
+                                {!!sheet.formulaCellsCount && (
+                                  <span className="ml-2">· 수식 {sheet.formulaCellsCount.toLocaleString()}개</span>
+                                )}
+                                {!!sheet.missingCachedValues?.length && (
+                                  <span className="ml-2 text-destructive">· 계산 결과 없는 수식 {sheet.missingCachedValues.length.toLocaleString()}개</span>
+                                )}
+                                {!!sheet.duplicateRowsCount && (
+                                  <span className="ml-2 text-amber-600 dark:text-amber-400">· 중복 행 {sheet.duplicateRowsCount.toLocaleString()}개</span>
+                                )}
+                                {appliedPresets[sheet.name] && (
+                                  <span className="ml-2 text-primary">· 프리셋 &quot;{appliedPresets[sheet.name]}&quot; 적용됨</span>
+                                )}
+                              </p>
                             </div>
-                            <p className="text-sm text-muted-foreground ml-7">
-                              {sheet.rowCount}행 × {sheet.columnCount}열
-                              {sheet.nonEmptyRowsCount !== undefined && (
-                                <span className="ml-2">(데이터: {sheet.nonEmptyRowsCount}행)</span>
-                              )}
-                            </p>
-                          </div>
-                          <div className="flex gap-2">
-                            <Dialog>
-                              <DialogTrigger asChild>
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => setPreviewSheetIndex(originalSheetIndex)}
-                                >
-                                  <Eye className="mr-2 h-3 w-3" />
-                                  미리보기
-                                </Button>
-                              </DialogTrigger>
-                              {originalSheet && (
-                                <DialogContent className="max-w-[95vw] max-h-[90vh] overflow-hidden flex flex-col">
-                                  <DialogHeader>
-                                    <DialogTitle className="flex items-center gap-2">
-                                      <FileText className="h-5 w-5" />
-                                      {originalSheet.name} - 상세 미리보기
-                                    </DialogTitle>
-                                    <DialogDescription>
-                                      시트 데이터의 상세 정보 및 미리보기
-                                    </DialogDescription>
-                                  </DialogHeader>
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant={expandedSheet === sheet.name ? 'default' : 'outline'}
+                                onClick={() => setExpandedSheet(expandedSheet === sheet.name ? null : sheet.name)}
+                                title="내보내기 설정"
+                              >
+                                <Settings2 className="h-3 w-3" />
+                              </Button>
+                              <Dialog>
+                                <DialogTrigger asChild>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => {
+                                      setPreviewSheetIndex(originalSheetIndex)
+                                      setRangeSelection(null)
+                                    }}
+                                  >
+                                    <Eye className="mr-2 h-3 w-3" />
+                                    미리보기
+                                  </Button>
+                                </DialogTrigger>
+                                {originalSheet && (
+                                  <DialogContent className="max-w-[95vw] max-h-[90vh] overflow-hidden flex flex-col">
+                                    <DialogHeader>
+                                      <DialogTitle className="flex items-center gap-2">
+                                        <FileText className="h-5 w-5" />
+                                        {originalSheet.name} - 상세 미리보기
+                                      </DialogTitle>
+                                      <DialogDescription>
+                                        시트 데이터의 상세 정보 및 미리보기
+                                      </DialogDescription>
+                                    </DialogHeader>
                                   
-                                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-muted/50 rounded-lg mb-4">
-                                    <div>
-                                      <div className="text-xs text-muted-foreground mb-1">총 행 수</div>
-                                      <div className="text-lg font-semibold">{originalSheet.rowCount.toLocaleString()}</div>
-                                    </div>
-                                    <div>
-                                      <div className="text-xs text-muted-foreground mb-1">총 열 수</div>
-                                      <div className="text-lg font-semibold">{originalSheet.columnCount.toLocaleString()}</div>
-                                    </div>
-                                    <div>
-                                      <div className="text-xs text-muted-foreground mb-1">데이터 행 수</div>
-                                      <div className="text-lg font-semibold">{originalSheet.nonEmptyRowsCount?.toLocaleString() ?? 0}</div>
-                                    </div>
-                                    <div>
-                                      <div className="text-xs text-muted-foreground mb-1">빈 셀 수</div>
-                                      <div className="text-lg font-semibold">{originalSheet.emptyCellsCount?.toLocaleString() ?? 0}</div>
+                                    <div className="grid grid-cols-2 md:grid-cols-7 gap-4 p-4 bg-muted/50 rounded-lg mb-4">
+                                      <div>
+                                        <div className="text-xs text-muted-foreground mb-1">총 행 수</div>
+                                        <div className="text-lg font-semibold">{originalSheet.rowCount.toLocaleString()}</div>
+                                      </div>
+                                      <div>
+                                        <div className="text-xs text-muted-foreground mb-1">총 열 수</div>
+                                        <div className="text-lg font-semibold">{originalSheet.columnCount.toLocaleString()}</div>
+                                      </div>
+                                      <div>
+                                        <div className="text-xs text-muted-foreground mb-1">데이터 행 수</div>
+                                        <div className="text-lg font-semibold">{originalSheet.nonEmptyRowsCount?.toLocaleString() ?? 0}</div>
+                                      </div>
+                                      <div>
+                                        <div className="text-xs text-muted-foreground mb-1">빈 셀 수</div>
+                                        <div className="text-lg font-semibold">{originalSheet.emptyCellsCount?.toLocaleString() ?? 0}</div>
+                                      </div>
+                                      <div>
+                                        <div className="text-xs text-muted-foreground mb-1">병합 영역</div>
+                                        <div className="text-lg font-semibold">{originalSheet.mergedRegionsCount?.toLocaleString() ?? 0}</div>
+                                      </div>
+                                      <div>
+                                        <div className="text-xs text-muted-foreground mb-1">수식 셀</div>
+                                        <div className="text-lg font-semibold">{originalSheet.formulaCellsCount?.toLocaleString() ?? 0}</div>
+                                      </div>
+                                      <div>
+                                        <div className="text-xs text-muted-foreground mb-1">중복 행</div>
+                                        <div className="text-lg font-semibold">{originalSheet.duplicateRowsCount?.toLocaleString() ?? 0}</div>
+                                      </div>
                                     </div>
-                                  </div>
 
-                                  {originalSheet.columnTypes && originalSheet.columnTypes.length > 0 && (
-                                    <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg">
-                                      <div className="text-sm font-medium mb-2 flex items-center gap-2">
-                                        <Info className="h-4 w-4" />
-                                        열별 데이터 타입 정보
-                                      </div>
-                                      <div className="flex flex-wrap gap-2">
-                                        {originalSheet.columnTypes.slice(0, 20).map((type, idx) => (
-                                          <div key={idx} className="px-2 py-1 bg-background rounded text-xs">
-                                            열 {idx + 1}: <span className="font-semibold text-blue-600 dark:text-blue-400">{type}</span>
+                                    <Tabs defaultValue="data" className="flex-1 flex flex-col min-h-0">
+                                      <TabsList className="self-start mb-4">
+                                        <TabsTrigger value="data">데이터</TabsTrigger>
+                                        <TabsTrigger value="profile" className="flex items-center gap-1">
+                                          <BarChart3 className="h-3 w-3" />
+                                          프로파일링
+                                        </TabsTrigger>
+                                      </TabsList>
+
+                                      <TabsContent value="data" className="mt-0 flex-1 flex flex-col min-h-0">
+                                        {!!originalSheet.missingCachedValues?.length && (
+                                          <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm">
+                                            <div className="flex items-center gap-2 font-medium text-destructive">
+                                              <AlertCircle className="h-4 w-4" />
+                                              계산 결과가 저장되지 않은 수식 {originalSheet.missingCachedValues.length.toLocaleString()}개
+                                            </div>
+                                            <p className="text-xs text-muted-foreground mt-1">
+                                              값으로 내보내면 빈 칸이 됩니다. 내보내기 설정에서 수식으로 내보낼 수 있습니다: <span className="font-mono">{originalSheet.missingCachedValues.slice(0, 10).join(', ')}{originalSheet.missingCachedValues.length > 10 ? ' ...' : ''}</span>
+                                            </p>
+                                          </div>
+                                        )}
+
+                                        {table && table.validationIssues.length > 0 && (
+                                          <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 rounded-lg text-sm">
+                                            <div className="flex items-center justify-between gap-2">
+                                              <div className="flex items-center gap-2 font-medium text-destructive">
+                                                <ShieldAlert className="h-4 w-4" />
+                                                검증 규칙 위반 {table.validationIssues.length.toLocaleString()}건
+                                              </div>
+                                              <Button
+                                                size="sm"
+                                                variant="outline"
+                                                className="h-7 px-2 text-xs"
+                                                onClick={() => downloadFile(
+                                                  buildValidationReport(originalSheet.name, table.validationIssues),
+                                                  `${excelData!.fileName.replace(/\.[^/.]+$/, '')}_${originalSheet.name.replace(/[^a-zA-Z0-9가-힣]/g, '_')}_검증_보고서.json`,
+                                                  'application/json;charset=utf-8;'
+                                                )}
+                                              >
+                                                <Download className="mr-1 h-3 w-3" />
+                                                보고서 다운로드
+                                              </Button>
+                                            </div>
+                                            <ul className="mt-2 text-xs space-y-1 max-h-32 overflow-y-auto">
+                                              {table.validationIssues.slice(0, 20).map((issue, idx) => (
+                                                <li key={idx} className="font-mono">
+                                                  {issue.row}행 · {issue.column} · {VALIDATION_RULE_LABELS[issue.rule]} · {JSON.stringify(issue.value ?? null)} ({issue.message})
+                                                </li>
+                                              ))}
+                                            </ul>
+                                            {table.validationIssues.length > 20 && (
+                                              <p className="text-xs text-muted-foreground mt-1">
+                                                +{table.validationIssues.length - 20}건 더... (전체 목록은 보고서에서 확인하세요)
+                                              </p>
+                                            )}
                                           </div>
-                                        ))}
-                                        {originalSheet.columnTypes.length > 20 && (
-                                          <div className="px-2 py-1 text-xs text-muted-foreground">
-                                            +{originalSheet.columnTypes.length - 20}개 열 더...
+                                        )}
+
+                                        {table && table.duplicateGroups.length > 0 && (
+                                          <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-900 rounded-lg text-sm">
+                                            <div className="flex items-center gap-2 font-medium text-amber-700 dark:text-amber-400">
+                                              <Copy className="h-4 w-4" />
+                                              중복 행 {table.duplicateGroups.length.toLocaleString()}개 묶음
+                                              <span className="font-normal text-xs text-muted-foreground">
+                                                ({(sheetOptions[originalSheet.name]?.duplicateKeys?.join(', ')) || '모든 열'} 기준 · {DUPLICATE_MODE_LABELS[sheetOptions[originalSheet.name]?.duplicateMode ?? 'keepAll']})
+                                              </span>
+                                            </div>
+                                            <ul className="mt-2 text-xs space-y-1 max-h-32 overflow-y-auto">
+                                              {table.duplicateGroups.slice(0, 20).map((group, idx) => (
+                                                <li key={idx} className="font-mono truncate">
+                                                  {group.rowNumbers.join(', ')}행 ({group.rowNumbers.length}개) · {Object.entries(group.values).map(([key, value]) => `${key}=${JSON.stringify(value)}`).join(', ')}
+                                                </li>
+                                              ))}
+                                            </ul>
+                                            {table.duplicateGroups.length > 20 && (
+                                              <p className="text-xs text-muted-foreground mt-1">
+                                                +{table.duplicateGroups.length - 20}개 묶음 더...
+                                              </p>
+                                            )}
                                           </div>
                                         )}
-                                      </div>
-                                    </div>
-                                  )}
-
-                                  <div className="flex-1 overflow-auto border rounded-lg">
-                                    <Table>
-                                      <TableHeader className="sticky top-0 bg-background z-10">
-                                        <TableRow>
-                                          <TableHead className="w-16 bg-muted/50">#</TableHead>
-                                          {originalSheet.previewData?.[0]?.map((_, colIndex) => (
-                                            <TableHead key={colIndex} className="whitespace-nowrap bg-muted/50 min-w-[120px]">
-                                              열 {colIndex + 1}
-                                              {originalSheet.columnTypes?.[colIndex] && (
-                                                <span className="block text-xs font-normal text-muted-foreground mt-1">
-                                                  ({originalSheet.columnTypes[colIndex]})
-                                                </span>
+
+                                        {originalSheet.columnTypes && originalSheet.columnTypes.length > 0 && (
+                                          <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg">
+                                            <div className="text-sm font-medium mb-2 flex items-center gap-2">
+                                              <Info className="h-4 w-4" />
+                                              열별 데이터 타입 정보
+                                            </div>
+                                            <div className="flex flex-wrap gap-2">
+                                              {originalSheet.columnTypes.slice(0, 20).map((type, idx) => (
+                                                <div key={idx} className="px-2 py-1 bg-background rounded text-xs">
+                                                  열 {idx + 1}: <span className="font-semibold text-blue-600 dark:text-blue-400">{type}</span>
+                                                </div>
+                                              ))}
+                                              {originalSheet.columnTypes.length > 20 && (
+                                                <div className="px-2 py-1 text-xs text-muted-foreground">
+                                                  +{originalSheet.columnTypes.length - 20}개 열 더...
+                                                </div>
                                               )}
-                                            </TableHead>
-                                          ))}
-                                        </TableRow>
-                                      </TableHeader>
-                                      <TableBody>
-                                        {originalSheet.previewData?.map((row, rowIndex) => (
-                                          <TableRow key={rowIndex}>
-                                            <TableCell className="font-medium bg-muted/30 sticky left-0 z-10">
-                                              {rowIndex + 1}
-                                            </TableCell>
-                                            {row.map((cell, colIndex) => (
-                                              <TableCell 
-                                                key={colIndex} 
-                                                className="whitespace-pre-wrap break-words max-w-xs"
-                                                title={cell !== null && cell !== undefined ? String(cell) : ''}
-                                              >
-                                                <div className="max-h-24 overflow-y-auto">
-                                                  {cell !== null && cell !== undefined ? String(cell) : <span className="text-muted-foreground italic">(비어있음)</span>}
+                                            </div>
+                                          </div>
+                                        )}
+
+                                        {selectedFormat === 'sql' && sqlTableMapping && (
+                                          <div className="mb-4 p-3 bg-muted/50 rounded-lg">
+                                            <div className="text-sm font-medium mb-2">
+                                              SQL 이름 매핑 ({SQL_DIALECT_LABELS[sqlOptions.dialect]}) · 테이블 <span className="font-mono">{sqlTableMapping.tableName}</span>
+                                            </div>
+                                            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-1 max-h-32 overflow-y-auto text-xs">
+                                              {sqlTableMapping.columns.map((column, idx) => (
+                                                <div key={idx} className="truncate" title={`${column.source} → ${column.identifier} (${column.sqlType})`}>
+                                                  {column.source} → <span className="font-mono">{column.identifier}</span>{' '}
+                                                  <span className="text-muted-foreground">({column.sqlType})</span>
                                                 </div>
-                                              </TableCell>
-                                            ))}
-                                          </TableRow>
-                                        ))}
-                                      </TableBody>
-                                    </Table>
-                                  </div>
-
-                                  <div className="text-xs text-muted-foreground mt-4 pt-4 border-t text-center">
-                                    {originalSheet.previewData && originalSheet.previewData.length < originalSheet.rowCount && (
-                                      <span>
-                                        처음 {originalSheet.previewData.length}행만 표시됩니다. 
-                                        전체 {originalSheet.rowCount.toLocaleString()}행 중 일부입니다.
-                                      </span>
-                                    )}
-                                    {originalSheet.previewData && originalSheet.previewData.length >= originalSheet.rowCount && (
-                                      <span>전체 데이터가 표시되었습니다.</span>
-                                    )}
-                                  </div>
-                                </DialogContent>
+                                              ))}
+                                            </div>
+                                          </div>
+                                        )}
+
+                                        {selectedFormat === 'markdown' && (
+                                          <div className="mb-4 p-3 bg-muted/50 rounded-lg space-y-2">
+                                            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                                              <div className="flex-1 text-xs text-muted-foreground">
+                                                {sheetOptions[originalSheet.name]?.range
+                                                  ? `${sheetOptions[originalSheet.name]!.range} 범위를 Markdown 표로 변환합니다`
+                                                  : '시트 전체를 Markdown 표로 변환합니다 (셀을 드래그하여 범위를 지정할 수 있습니다)'}
+                                              </div>
+                                              <Button size="sm" variant="outline" onClick={() => handleDownloadMarkdown(originalSheet.name)}>
+                                                <Download className="mr-2 h-3 w-3" />
+                                                .md 다운로드
+                                              </Button>
+                                              {onOpenInMarkdown && (
+                                                <DialogClose asChild>
+                                                  <Button size="sm" onClick={() => handleOpenInMarkdown(originalSheet.name)}>
+                                                    <FileCode className="mr-2 h-3 w-3" />
+                                                    Markdown 변환기에서 열기
+                                                  </Button>
+                                                </DialogClose>
+                                              )}
+                                            </div>
+                                            {validationWarnings[originalSheet.name] && (
+                                              <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1">
+                                                <ShieldAlert className="h-3 w-3" />
+                                                검증 규칙 위반 {validationWarnings[originalSheet.name].toLocaleString()}건이 있는 상태로 변환했습니다
+                                              </p>
+                                            )}
+                                            {error && <p className="text-xs text-destructive">{error}</p>}
+                                          </div>
+                                        )}
+
+                                        {nestedShapePreview && (
+                                          <div className="mb-4 p-3 bg-muted/50 rounded-lg">
+                                            <div className="text-sm font-medium mb-2">중첩 JSON 구조 미리보기 (첫 번째 행)</div>
+                                            <pre className="text-xs font-mono max-h-48 overflow-auto whitespace-pre">{nestedShapePreview}</pre>
+                                          </div>
+                                        )}
+
+                                        <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+                                          {selectedRangeText ? (
+                                            <>
+                                              <span>선택한 범위: <span className="font-mono font-semibold">{selectedRangeText}</span></span>
+                                              <Button size="sm" className="h-6 px-2 text-xs" onClick={() => handleApplyRange(originalSheet.name, selectedRangeText)}>
+                                                이 범위만 내보내기
+                                              </Button>
+                                              <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => setRangeSelection(null)}>
+                                                선택 취소
+                                              </Button>
+                                            </>
+                                          ) : (
+                                            <span className="text-muted-foreground">헤더나 셀을 드래그하여 내보낼 범위를 선택할 수 있습니다</span>
+                                          )}
+                                          {sheetOptions[originalSheet.name]?.range && (
+                                            <span className="ml-auto flex items-center gap-2">
+                                              내보내기 범위: <span className="font-mono font-semibold">{sheetOptions[originalSheet.name]!.range}</span>
+                                              <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => handleApplyRange(originalSheet.name, undefined)}>
+                                                전체 시트로 되돌리기
+                                              </Button>
+                                            </span>
+                                          )}
+                                        </div>
+
+                                        <div className="flex-1 overflow-auto border rounded-lg select-none">
+                                          <Table>
+                                            <TableHeader className="sticky top-0 bg-background z-10">
+                                              <TableRow>
+                                                <TableHead className="w-16 bg-muted/50">#</TableHead>
+                                                {table?.headers.map((header, colIndex) => (
+                                                  <TableHead
+                                                    key={colIndex}
+                                                    className={cn(
+                                                      'whitespace-nowrap bg-muted/50 min-w-[120px]',
+                                                      table.headerRowNumber !== null && isCellInSelection(table.headerRowNumber - 1, table.columnIndexes[colIndex]) && 'bg-primary/20'
+                                                    )}
+                                                    onMouseDown={() => table.headerRowNumber !== null && handleSelectionStart(table.headerRowNumber - 1, table.columnIndexes[colIndex])}
+                                                    onMouseEnter={() => table.headerRowNumber !== null && handleSelectionMove(table.headerRowNumber - 1, table.columnIndexes[colIndex])}
+                                                  >
+                                                    {header}
+                                                    {table.columnTypes[colIndex] && (
+                                                      <span className="block text-xs font-normal text-muted-foreground mt-1">
+                                                        ({table.columnTypes[colIndex]})
+                                                      </span>
+                                                    )}
+                                                  </TableHead>
+                                                ))}
+                                              </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                              {tablePreviewRows.map((row, rowIndex) => (
+                                                <TableRow key={rowIndex}>
+                                                  <TableCell className="font-medium bg-muted/30 sticky left-0 z-10">
+                                                    {table!.rowNumbers[rowIndex]}
+                                                  </TableCell>
+                                                  {table!.headers.map((_, colIndex) => row[colIndex]).map((cell, colIndex) => {
+                                                    const address = { r: table!.rowNumbers[rowIndex] - 1, c: table!.columnIndexes[colIndex] }
+                                                    const cellAddress = XLSX.utils.encode_cell(address)
+                                                    const merged = table!.mergedCells.get(cellAddress)
+                                                    const annotation = table!.annotations.get(cellAddress)
+                                                    const annotationTitle = [
+                                                      annotation?.link !== undefined && `링크: ${annotation.link}`,
+                                                      annotation?.comment !== undefined && `메모: ${annotation.comment}`,
+                                                    ].filter(Boolean).join('\n')
+                                                    const valueTitle = merged
+                                                      ? `병합된 셀 (${merged.range})${cell !== null && cell !== undefined ? `: ${String(cell)}` : ''}`
+                                                      : cell !== null && cell !== undefined ? String(cell) : ''
+                                                    const violations = validationMessages.get(`${table!.rowNumbers[rowIndex]}:${table!.headers[colIndex]}`)
+                                                    return (
+                                                      <TableCell 
+                                                        key={colIndex} 
+                                                        className={cn(
+                                                          'whitespace-pre-wrap break-words max-w-xs',
+                                                          merged && 'bg-amber-50 dark:bg-amber-950/20',
+                                                          merged?.isOrigin && 'border-l-2 border-amber-400',
+                                                          violations && 'bg-destructive/10 ring-1 ring-inset ring-destructive/40',
+                                                          isCellInSelection(address.r, address.c) && 'bg-primary/20'
+                                                        )}
+                                                        onMouseDown={() => handleSelectionStart(address.r, address.c)}
+                                                        onMouseEnter={() => handleSelectionMove(address.r, address.c)}
+                                                        title={[valueTitle, annotationTitle, ...(violations ?? [])].filter(Boolean).join('\n')}
+                                                      >
+                                                        <div className="flex items-start gap-1">
+                                                          <div className="max-h-24 overflow-y-auto flex-1">
+                                                            {cell !== null && cell !== undefined
+                                                              ? String(cell)
+                                                              : <span className="text-muted-foreground italic">{merged ? '(병합됨)' : '(비어있음)'}</span>}
+                                                          </div>
+                                                          {annotation?.link !== undefined && <Link2 className="h-3 w-3 shrink-0 text-blue-500" />}
+                                                          {annotation?.comment !== undefined && <MessageSquare className="h-3 w-3 shrink-0 text-amber-500" />}
+                                                        </div>
+                                                      </TableCell>
+                                                    )
+                                                  })}
+                                                </TableRow>
+                                              ))}
+                                            </TableBody>
+                                          </Table>
+                                        </div>
+
+                                        <div className="text-xs text-muted-foreground mt-4 pt-4 border-t text-center">
+                                          {!table && (
+                                            <span className="inline-flex items-center gap-2">
+                                              <Loader2 className="h-3 w-3 animate-spin" />
+                                              미리보기 데이터를 불러오는 중...
+                                            </span>
+                                          )}
+                                          {table && tablePreviewRows.length < table.totalRows && (
+                                            <span>
+                                              처음 {tablePreviewRows.length}행만 표시됩니다. 
+                                              전체 {table.totalRows.toLocaleString()}개 데이터 행 중 일부입니다.
+                                            </span>
+                                          )}
+                                          {table && tablePreviewRows.length >= table.totalRows && (
+                                            <span>전체 데이터가 표시되었습니다.</span>
+                                          )}
+                                          {table && table.mergedCells.size > 0 && (
+                                            <span className="block mt-1">
+                                              <span className="inline-block w-3 h-3 align-middle mr-1 bg-amber-50 dark:bg-amber-950/20 border-l-2 border-amber-400" />
+                                              노란색 셀은 병합된 영역입니다. {sheetOptions[originalSheet.name]?.fillMergedCells ? '병합된 값이 모든 셀에 채워져 내보내집니다.' : '값은 왼쪽 위 셀에만 있습니다.'}
+                                            </span>
+                                          )}
+                                          {table && table.validationIssues.length > 0 && (
+                                            <span className="block mt-1">
+                                              <span className="inline-block w-3 h-3 align-middle mr-1 bg-destructive/10 ring-1 ring-inset ring-destructive/40" />
+                                              빨간색 테두리 셀은 검증 규칙을 위반한 셀입니다. 셀에 마우스를 올리면 위반한 규칙을 볼 수 있습니다.
+                                            </span>
+                                          )}
+                                          {table && table.annotations.size > 0 && (
+                                            <span className="block mt-1">
+                                              <Link2 className="inline h-3 w-3 text-blue-500 mr-1" />하이퍼링크
+                                              <MessageSquare className="inline h-3 w-3 text-amber-500 ml-3 mr-1" />메모가 있는 셀입니다. 셀에 마우스를 올리면 내용을 볼 수 있으며, 내보내기 설정에서 함께 내보낼 수 있습니다.
+                                            </span>
+                                          )}
+                                        </div>
+                                      </TabsContent>
+
+                                      <TabsContent value="profile" className="mt-0 flex-1 overflow-auto">
+                                        <ColumnProfilePanel
+                                          sheetName={originalSheet.name}
+                                          fileName={`${excelData!.fileName.replace(/\.[^/.]+$/, '')}_${originalSheet.name.replace(/[^a-zA-Z0-9가-힣]/g, '_')}`}
+                                          profiles={originalSheet.columnProfiles ?? []}
+                                        />
+                                      </TabsContent>
+                                    </Tabs>
+                                  </DialogContent>
+                                )}
+                              </Dialog>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleDownload(sheet.name, 'csv')}
+                                disabled={sheet.rowCount === 0}
+                              >
+                                <Download className="mr-2 h-3 w-3" />
+                                CSV
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleDownload(sheet.name, 'json')}
+                                disabled={sheet.rowCount === 0}
+                              >
+                                <Download className="mr-2 h-3 w-3" />
+                                JSON
+                              </Button>
+                              {selectedFormat !== 'csv' && selectedFormat !== 'json' && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleDownload(sheet.name, selectedFormat)}
+                                  disabled={sheet.rowCount === 0}
+                                >
+                                  <Download className="mr-2 h-3 w-3" />
+                                  {FORMAT_LABELS[selectedFormat]}
+                                </Button>
                               )}
-                            </Dialog>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleDownload(sheet.name, 'csv')}
-                              disabled={sheet.rowCount === 0}
-                            >
-                              <Download className="mr-2 h-3 w-3" />
-                              CSV
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleDownload(sheet.name, 'json')}
-                              disabled={sheet.rowCount === 0}
-                            >
-                              <Download className="mr-2 h-3 w-3" />
-                              JSON
-                            </Button>
+                            </div>
                           </div>
+                          {expandedSheet === sheet.name && (
+                            <div className="mt-4 pt-4 border-t">
+                              <SheetOptions
+                                sheetName={sheet.name}
+                                rowCount={sheet.rowCount}
+                                mergedRegionsCount={sheet.mergedRegionsCount ?? 0}
+                                formulaCellsCount={sheet.formulaCellsCount ?? 0}
+                                missingCachedValues={sheet.missingCachedValues ?? []}
+                                hyperlinkCellsCount={sheet.hyperlinkCellsCount ?? 0}
+                                commentCellsCount={sheet.commentCellsCount ?? 0}
+                                options={sheetOptions[sheet.name] ?? {}}
+                                onChange={(options) => handleSheetOptionsChange(sheet.name, options)}
+                                sourceColumns={expandedSheetView?.sourceColumns ?? []}
+                                issues={expandedSheetView?.issues ?? []}
+                                validationIssues={expandedSheetView?.validationIssues ?? []}
+                                duplicateGroups={expandedSheetView?.duplicateGroups ?? []}
+                                cleaningChanges={expandedSheetView?.cleaningChanges ?? []}
+                                cleanedCellsCount={expandedSheetView?.cleanedCellsCount ?? 0}
+                                mappedColumns={expandedSheetView?.mappedColumns ?? []}
+                                reshapePreview={expandedSheetView ?? null}
+                                presets={columnPresets}
+                                onPresetsChange={handleColumnPresetsChange}
+                              />
+                            </div>
+                          )}
                         </div>
                       )
                     })
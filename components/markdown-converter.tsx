@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import { Upload, FileText, Download, Loader2, CheckCircle2, AlertCircle, Copy, Code, Eye, X, FileCheck } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -16,13 +16,22 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
 import { SaveOptions } from '@/components/save-options'
 
+export interface MarkdownDocument {
+  fileName: string
+  markdown: string
+}
+
+interface MarkdownConverterProps {
+  importedMarkdown?: MarkdownDocument | null // 다른 변환기에서 넘겨받은 문서
+}
+
 interface ConvertedFile {
   fileName: string
   markdown: string
   originalFile: File
 }
 
-export function MarkdownConverter() {
+export function MarkdownConverter({ importedMarkdown }: MarkdownConverterProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [convertedMarkdown, setConvertedMarkdown] = useState<string | null>(null)
@@ -39,6 +48,17 @@ export function MarkdownConverter() {
 
   const MAX_FILES = 10
 
+  // 넘겨받은 문서를 변환 결과로 표시하여 미리보기와 저장 옵션을 그대로 사용합니다
+  useEffect(() => {
+    if (!importedMarkdown) return
+    setConvertedMarkdown(importedMarkdown.markdown)
+    setSourceFileName(importedMarkdown.fileName)
+    setChatText('')
+    setSelectedFiles([])
+    setConvertedFiles([])
+    setError(null)
+  }, [importedMarkdown])
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || [])
     if (files.length === 0) return
@@ -0,0 +1,273 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { SheetExportOptions } from '@/lib/excel-converter'
+import {
+  DEFAULT_UNPIVOT_NAME_KEY,
+  DEFAULT_UNPIVOT_VALUE_KEY,
+  type PivotAggregation,
+  type ReshapeMode,
+  type ReshapeOptions,
+} from '@/lib/sheet-reshape'
+import { cn } from '@/lib/utils'
+
+export const RESHAPE_MODE_LABELS: Record<ReshapeMode, string> = {
+  unpivot: '세로로 펼치기',
+  pivot: '가로로 모으기',
+}
+
+export const PIVOT_AGGREGATION_LABELS: Record<PivotAggregation, string> = {
+  sum: '합계',
+  mean: '평균',
+  count: '개수',
+  min: '최솟값',
+  max: '최댓값',
+  first: '첫 값',
+  last: '마지막 값',
+}
+
+interface ReshapeEditorProps {
+  sheetName: string
+  columns: string[] // 열 매핑을 적용한 뒤의 열 키
+  options: SheetExportOptions
+  onChange: (options: SheetExportOptions) => void
+  preview: { headers: string[]; rows: any[][]; totalRows: number } | null // 형태를 바꾼 결과 (앞부분 행)
+}
+
+function formatPreviewValue(value: any): string {
+  if (value === null || value === undefined) return ''
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+export function ReshapeEditor({ sheetName, columns, options, onChange, preview }: ReshapeEditorProps) {
+  const reshape = options.reshape
+  const columnSet = new Set(columns)
+
+  const updateReshape = (next: Partial<ReshapeOptions>) => {
+    if (!reshape) return
+    onChange({ ...options, reshape: { ...reshape, ...next } })
+  }
+
+  const changeMode = (value: string) => {
+    if (value === 'none') {
+      onChange({ ...options, reshape: undefined })
+      return
+    }
+    // 방식을 바꾸면 기준 열만 유지합니다
+    onChange({ ...options, reshape: { mode: value as ReshapeMode, idColumns: reshape?.idColumns ?? [] } })
+  }
+
+  const toggleColumn = (field: 'idColumns' | 'valueColumns', key: string) => {
+    const selected = reshape?.[field] ?? []
+    const next = selected.includes(key) ? selected.filter(existing => existing !== key) : [...selected, key]
+    updateReshape({ [field]: field === 'valueColumns' && next.length === 0 ? undefined : next })
+  }
+
+  const renderColumnChips = (field: 'idColumns' | 'valueColumns', disabledKeys: string[] = []) => {
+    const selected = reshape?.[field] ?? []
+    return (
+      <div className="flex flex-wrap gap-1">
+        {columns.map(key => (
+          <button
+            key={key}
+            type="button"
+            className={cn(
+              'px-2 py-0.5 rounded border text-xs max-w-[160px] truncate disabled:opacity-40',
+              selected.includes(key) ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-muted'
+            )}
+            onClick={() => toggleColumn(field, key)}
+            disabled={disabledKeys.includes(key)}
+            title={key}
+          >
+            {key}
+          </button>
+        ))}
+        {selected.filter(key => !columnSet.has(key)).map(key => (
+          <button
+            key={key}
+            type="button"
+            className="px-2 py-0.5 rounded border text-xs line-through opacity-50"
+            onClick={() => toggleColumn(field, key)}
+            title="현재 열 매핑에 없는 열입니다 (클릭하여 제거)"
+          >
+            {key}
+          </button>
+        ))}
+      </div>
+    )
+  }
+
+  const renderColumnSelect = (field: 'columnKey' | 'valueKey', id: string) => (
+    <Select
+      value={reshape?.[field] && columnSet.has(reshape[field]!) ? reshape[field] : undefined}
+      onValueChange={(value) => updateReshape({ [field]: value })}
+    >
+      <SelectTrigger id={id} className="h-8">
+        <SelectValue placeholder="열 선택" />
+      </SelectTrigger>
+      <SelectContent>
+        {columns.map(key => (
+          <SelectItem key={key} value={key}>{key}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  const idPrefix = `reshape-${sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')}`
+  const idColumns = reshape?.idColumns ?? []
+  const pivotIncomplete = reshape?.mode === 'pivot' && (!reshape.columnKey || !reshape.valueKey)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <label htmlFor={`${idPrefix}-mode`} className="text-sm font-medium">
+          표 형태 변환
+        </label>
+        <Select value={reshape?.mode ?? 'none'} onValueChange={changeMode}>
+          <SelectTrigger id={`${idPrefix}-mode`} className="h-8 w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">변환하지 않음</SelectItem>
+            {(Object.keys(RESHAPE_MODE_LABELS) as ReshapeMode[]).map(mode => (
+              <SelectItem key={mode} value={mode}>{RESHAPE_MODE_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {reshape && (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground">
+              {reshape.mode === 'unpivot' ? '그대로 둘 기준 열' : '행을 구분할 기준 열'}
+            </div>
+            {renderColumnChips('idColumns', reshape.mode === 'pivot' ? [reshape.columnKey ?? '', reshape.valueKey ?? ''] : [])}
+          </div>
+
+          {reshape.mode === 'unpivot' ? (
+            <>
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">펼칠 열 (선택하지 않으면 기준 열을 제외한 모든 열)</div>
+                {renderColumnChips('valueColumns', idColumns)}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor={`${idPrefix}-name-key`} className="text-xs text-muted-foreground mb-1 block">
+                    열 이름을 담을 열
+                  </label>
+                  <Input
+                    id={`${idPrefix}-name-key`}
+                    placeholder={DEFAULT_UNPIVOT_NAME_KEY}
+                    value={reshape.nameKey ?? ''}
+                    onChange={(e) => updateReshape({ nameKey: e.target.value || undefined })}
+                    className="h-8"
+                  />
+                </div>
+                <div>
+                  <label htmlFor={`${idPrefix}-value-key`} className="text-xs text-muted-foreground mb-1 block">
+                    값을 담을 열
+                  </label>
+                  <Input
+                    id={`${idPrefix}-value-key`}
+                    placeholder={DEFAULT_UNPIVOT_VALUE_KEY}
+                    value={reshape.valueKey ?? ''}
+                    onChange={(e) => updateReshape({ valueKey: e.target.value || undefined })}
+                    className="h-8"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${idPrefix}-skip-empty`}
+                  checked={!!reshape.skipEmptyValues}
+                  onCheckedChange={(checked) => updateReshape({ skipEmptyValues: checked === true || undefined })}
+                />
+                <label htmlFor={`${idPrefix}-skip-empty`} className="text-xs cursor-pointer">
+                  값이 빈 행 제외
+                </label>
+              </div>
+            </>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label htmlFor={`${idPrefix}-column-key`} className="text-xs text-muted-foreground mb-1 block">
+                  열 이름이 될 열
+                </label>
+                {renderColumnSelect('columnKey', `${idPrefix}-column-key`)}
+              </div>
+              <div>
+                <label htmlFor={`${idPrefix}-pivot-value-key`} className="text-xs text-muted-foreground mb-1 block">
+                  값 열
+                </label>
+                {renderColumnSelect('valueKey', `${idPrefix}-pivot-value-key`)}
+              </div>
+              <div>
+                <label htmlFor={`${idPrefix}-aggregation`} className="text-xs text-muted-foreground mb-1 block">
+                  같은 칸의 값 합치기
+                </label>
+                <Select
+                  value={reshape.aggregation ?? 'sum'}
+                  onValueChange={(value) => updateReshape({ aggregation: value === 'sum' ? undefined : value as PivotAggregation })}
+                >
+                  <SelectTrigger id={`${idPrefix}-aggregation`} className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PIVOT_AGGREGATION_LABELS) as PivotAggregation[]).map(aggregation => (
+                      <SelectItem key={aggregation} value={aggregation}>{PIVOT_AGGREGATION_LABELS[aggregation]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {pivotIncomplete ? (
+            <p className="text-xs text-destructive">열 이름이 될 열과 값 열을 선택해야 변환됩니다</p>
+          ) : preview && (
+            <div className="space-y-1">
+              <div className="text-xs font-medium">
+                변환 결과 ({preview.headers.length.toLocaleString()}개 열 · {preview.totalRows.toLocaleString()}행)
+              </div>
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {preview.headers.map((header, index) => (
+                        <TableHead key={index} className="h-8 text-xs whitespace-nowrap">{header}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {preview.headers.map((_, index) => (
+                          <TableCell key={index} className="py-1 text-xs font-mono whitespace-nowrap">
+                            {formatPreviewValue(row[index])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {preview.totalRows > preview.rows.length && (
+                <p className="text-xs text-muted-foreground">
+                  +{(preview.totalRows - preview.rows.length).toLocaleString()}행 더... (미리보기에서 전체 결과를 확인할 수 있습니다)
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        세로로 펼치면 &quot;제품, 1월, 2월&quot;처럼 가로로 늘어선 열을 &quot;제품, {DEFAULT_UNPIVOT_NAME_KEY}, {DEFAULT_UNPIVOT_VALUE_KEY}&quot; 행으로 바꾸고, 가로로 모으면 반대로 한 열의 값을 열 이름으로 삼습니다. 열 매핑을 적용한 뒤의 열 이름을 기준으로 하며, 변환한 표가 모든 형식의 내보내기와 미리보기에 사용됩니다.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,532 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Upload, FileSpreadsheet, Download, Loader2, AlertCircle, GitCompare } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { TextImportDialog, type PendingTextFile } from '@/components/text-import-dialog'
+import { SPREADSHEET_EXTENSIONS, downloadFile, formatFileSize, type ExcelSummary, type SheetExportOptions } from '@/lib/excel-converter'
+import { DELIMITED_TEXT_EXTENSIONS, isDelimitedTextFile, type DelimitedText } from '@/lib/delimited-text'
+import { ExcelWorkerClient, isCancelledError } from '@/lib/excel-worker-client'
+import {
+  compareSheets,
+  generateDiffJSON,
+  writeDiffXLSX,
+  ROW_DIFF_STATUS_LABELS,
+  type RowDiffStatus,
+  type SheetDiff,
+} from '@/lib/sheet-diff'
+import { cn } from '@/lib/utils'
+
+const MAX_LISTED_ROWS = 100
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+const UPLOAD_EXTENSIONS = [...SPREADSHEET_EXTENSIONS, ...DELIMITED_TEXT_EXTENSIONS]
+
+const STATUS_CLASSES: Record<RowDiffStatus, string> = {
+  added: 'bg-green-50 text-green-700 dark:bg-green-950/20 dark:text-green-400',
+  removed: 'bg-red-50 text-red-700 dark:bg-red-950/20 dark:text-red-400',
+  changed: 'bg-amber-50 text-amber-700 dark:bg-amber-950/20 dark:text-amber-400',
+}
+
+type DiffSide = 'before' | 'after'
+
+const SIDE_LABELS: Record<DiffSide, string> = {
+  before: '이전 파일',
+  after: '이후 파일',
+}
+
+type LoadFile = (client: ExcelWorkerClient) => Promise<ExcelSummary>
+
+interface SideState {
+  summary: ExcelSummary | null
+  sheetName: string | null
+  load: LoadFile | null // 이 파일을 Worker에 불러오는 함수 (이전 파일을 이후 쪽에 다시 불러올 때 사용)
+}
+
+const EMPTY_SIDE: SideState = { summary: null, sheetName: null, load: null }
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '(빈 값)'
+  return String(value)
+}
+
+export function SheetDiffViewer() {
+  // 워크북은 쪽마다 별도의 Worker에 보관합니다
+  const [clients] = useState<Record<DiffSide, ExcelWorkerClient>>(() => ({
+    before: new ExcelWorkerClient(),
+    after: new ExcelWorkerClient(),
+  }))
+  const [sides, setSides] = useState<Record<DiffSide, SideState>>({ before: EMPTY_SIDE, after: EMPTY_SIDE })
+  const [loadingSide, setLoadingSide] = useState<DiffSide | null>(null)
+  const [pendingText, setPendingText] = useState<{ side: DiffSide; file: PendingTextFile } | null>(null)
+  const [headerRow, setHeaderRow] = useState<number | undefined>(undefined)
+  const [commonColumns, setCommonColumns] = useState<string[]>([])
+  const [keyColumn, setKeyColumn] = useState<string | null>(null)
+  const [diff, setDiff] = useState<SheetDiff | null>(null)
+  const [statusFilter, setStatusFilter] = useState<RowDiffStatus | null>(null)
+  const [isComparing, setIsComparing] = useState(false)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRefs = {
+    before: useRef<HTMLInputElement>(null),
+    after: useRef<HTMLInputElement>(null),
+  }
+
+  // 컴포넌트가 사라지면 Worker와 워크북을 해제합니다
+  useEffect(() => () => {
+    clients.before.cancel()
+    clients.after.cancel()
+  }, [clients])
+
+  const options: SheetExportOptions = useMemo(() => ({ headerRow }), [headerRow])
+
+  // 키 열은 두 시트에 모두 있는 열 중에서 고릅니다
+  useEffect(() => {
+    const { before, after } = sides
+    if (!before.sheetName || !after.sheetName) {
+      setCommonColumns([])
+      return
+    }
+
+    let ignore = false
+    Promise.all([
+      clients.before.call('getSheetHeaders', before.sheetName, options),
+      clients.after.call('getSheetHeaders', after.sheetName, options),
+    ])
+      .then(([beforeHeaders, afterHeaders]) => {
+        const afterKeys = new Set(afterHeaders)
+        if (!ignore) setCommonColumns(beforeHeaders.filter(key => afterKeys.has(key)))
+      })
+      .catch(() => {
+        if (!ignore) setCommonColumns([])
+      })
+
+    return () => {
+      ignore = true
+    }
+  }, [clients, sides, options])
+
+  const updateSide = (side: DiffSide, state: SideState) => {
+    setSides(prev => ({ ...prev, [side]: state }))
+    setDiff(null)
+  }
+
+  /**
+   * 한쪽 Worker에 파일을 불러오고 데이터가 있는 첫 시트를 고릅니다
+   * @param skipSheet - 가능하면 고르지 않을 시트 (한 파일의 두 시트를 비교할 때 이전 쪽 시트)
+   */
+  const loadSide = async (side: DiffSide, load: LoadFile, skipSheet?: string | null) => {
+    setLoadingSide(side)
+    setError(null)
+
+    try {
+      const summary = await load(clients[side])
+      const firstSheet = summary.sheets.find(sheet => sheet.name !== skipSheet && sheet.rowCount > 0) ?? summary.sheets[0]
+      updateSide(side, { summary, sheetName: firstSheet?.name ?? null, load })
+    } catch (err) {
+      if (!isCancelledError(err)) {
+        setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다')
+      }
+      updateSide(side, EMPTY_SIDE)
+    } finally {
+      setLoadingSide(null)
+    }
+  }
+
+  const handleFileUpload = async (side: DiffSide, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // 같은 파일을 다시 선택해도 변경 이벤트가 발생하도록 비웁니다
+    event.target.value = ''
+    if (!file) return
+
+    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase()
+
+    if (!UPLOAD_EXTENSIONS.includes(fileExtension)) {
+      setError(`스프레드시트 또는 CSV/TSV 파일만 업로드 가능합니다 (${UPLOAD_EXTENSIONS.join(', ')})`)
+      return
+    }
+
+    // CSV/TSV는 인코딩과 구분자를 확인한 뒤에 불러옵니다
+    if (isDelimitedTextFile(file.name)) {
+      setError(null)
+      setPendingText({ side, file: { file, bytes: new Uint8Array(await file.arrayBuffer()) } })
+      return
+    }
+
+    await loadSide(side, client => client.load(file))
+  }
+
+  const handleTextImportConfirm = async (file: File, source: DelimitedText) => {
+    if (!pendingText) return
+    const { side } = pendingText
+    setPendingText(null)
+    await loadSide(side, client => client.loadText(file, source))
+  }
+
+  // 한 파일의 두 시트를 비교할 때는 이전 파일을 이후 쪽 Worker에도 불러옵니다
+  const handleUseBeforeFile = async () => {
+    const { load, sheetName } = sides.before
+    if (!load) return
+    await loadSide('after', load, sheetName)
+  }
+
+  const handleCompare = async () => {
+    const { before, after } = sides
+    if (!before.summary || !before.sheetName || !after.summary || !after.sheetName || !keyColumn) return
+
+    setIsComparing(true)
+    setError(null)
+    try {
+      const [beforeTable, afterTable] = await Promise.all([
+        clients.before.call('getDiffTable', before.sheetName, options),
+        clients.after.call('getDiffTable', after.sheetName, options),
+      ])
+      setDiff(compareSheets(
+        { fileName: before.summary.fileName, sheetName: before.sheetName, table: beforeTable },
+        { fileName: after.summary.fileName, sheetName: after.sheetName, table: afterTable },
+        keyColumn
+      ))
+      setStatusFilter(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다')
+      setDiff(null)
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  const diffBaseName = diff
+    ? `${diff.before.sheetName}_vs_${diff.after.sheetName}_비교`.replace(/[\\/?*[\]:]/g, '_')
+    : ''
+
+  const handleDownloadJSON = () => {
+    if (!diff) return
+    downloadFile(generateDiffJSON(diff), `${diffBaseName}.json`, 'application/json;charset=utf-8;')
+  }
+
+  const handleDownloadXLSX = async () => {
+    if (!diff) return
+
+    setIsDownloading(true)
+    try {
+      downloadFile(await writeDiffXLSX(diff), `${diffBaseName}.xlsx`, XLSX_MIME_TYPE)
+    } catch (error) {
+      setError('다운로드 중 오류가 발생했습니다: ' + (error as Error).message)
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const listedRows = diff ? diff.rows.filter(row => !statusFilter || row.status === statusFilter) : []
+  const canCompare = !!keyColumn && commonColumns.includes(keyColumn) && !!sides.before.sheetName && !!sides.after.sheetName
+
+  const renderSide = (side: DiffSide) => {
+    const { summary, sheetName } = sides[side]
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            {SIDE_LABELS[side]}
+          </CardTitle>
+          <CardDescription>
+            {summary ? `${summary.fileName} · ${formatFileSize(summary.fileSize)} · 시트 ${summary.sheets.length}개` : `비교할 파일을 선택하세요 (${UPLOAD_EXTENSIONS.join(', ')})`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <input
+            ref={fileInputRefs[side]}
+            type="file"
+            accept={UPLOAD_EXTENSIONS.join(',')}
+            onChange={(event) => handleFileUpload(side, event)}
+            className="hidden"
+            id={`sheet-diff-upload-${side}`}
+          />
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1 cursor-pointer"
+              disabled={loadingSide !== null}
+              onClick={() => fileInputRefs[side].current?.click()}
+            >
+              {loadingSide === side ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  파일 분석 중...
+                </>
+              ) : (
+                <>
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  파일 선택
+                </>
+              )}
+            </Button>
+            {side === 'after' && (
+              <Button type="button" variant="ghost" onClick={handleUseBeforeFile} disabled={!sides.before.load || loadingSide !== null}>
+                이전 파일 사용
+              </Button>
+            )}
+          </div>
+
+          {summary && (
+            <div>
+              <label htmlFor={`sheet-diff-sheet-${side}`} className="text-xs text-muted-foreground mb-1 block">
+                시트
+              </label>
+              <Select value={sheetName ?? undefined} onValueChange={(value) => updateSide(side, { ...sides[side], sheetName: value })}>
+                <SelectTrigger id={`sheet-diff-sheet-${side}`} className="h-8">
+                  <SelectValue placeholder="시트 선택" />
+                </SelectTrigger>
+                <SelectContent>
+                  {summary.sheets.map(sheet => (
+                    <SelectItem key={sheet.name} value={sheet.name}>
+                      {sheet.name} ({sheet.rowCount.toLocaleString()}행)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold mb-2">시트 비교</h2>
+        <p className="text-muted-foreground">
+          두 파일 또는 한 파일의 두 시트를 키 열로 비교하여 추가, 삭제, 변경된 행을 찾으세요
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {renderSide('before')}
+        {renderSide('after')}
+      </div>
+
+      <TextImportDialog
+        pending={pendingText?.file ?? null}
+        onConfirm={handleTextImportConfirm}
+        onCancel={() => setPendingText(null)}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            비교 기준
+          </CardTitle>
+          <CardDescription>
+            키 열의 값이 같은 행끼리 짝지어 셀 값을 비교합니다 (예: 상품코드)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <div className="md:col-span-2">
+              <label htmlFor="sheet-diff-key" className="text-xs text-muted-foreground mb-1 block">
+                키 열 (두 시트에 모두 있는 열)
+              </label>
+              <Select
+                value={keyColumn && commonColumns.includes(keyColumn) ? keyColumn : undefined}
+                onValueChange={(value) => {
+                  setKeyColumn(value)
+                  setDiff(null)
+                }}
+                disabled={commonColumns.length === 0}
+              >
+                <SelectTrigger id="sheet-diff-key" className="h-8">
+                  <SelectValue placeholder={commonColumns.length === 0 ? '공통 열이 없습니다' : '키 열 선택'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {commonColumns.map(key => (
+                    <SelectItem key={key} value={key}>{key}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label htmlFor="sheet-diff-header-row" className="text-xs text-muted-foreground mb-1 block">
+                헤더 시작 행
+              </label>
+              <Input
+                id="sheet-diff-header-row"
+                type="number"
+                min={1}
+                placeholder="1"
+                value={headerRow ?? ''}
+                onChange={(e) => {
+                  const parsed = parseInt(e.target.value, 10)
+                  setHeaderRow(isNaN(parsed) ? undefined : Math.max(1, parsed))
+                  setDiff(null)
+                }}
+                className="h-8"
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleCompare} disabled={!canCompare || isComparing} className="w-full">
+            {isComparing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                비교 중...
+              </>
+            ) : (
+              <>
+                <GitCompare className="mr-2 h-4 w-4" />
+                비교하기
+              </>
+            )}
+          </Button>
+
+          {error && (
+            <div className="p-4 bg-destructive/10 border border-destructive/20 rounded-md flex items-start gap-2">
+              <AlertCircle className="h-5 w-5 text-destructive mt-0.5" />
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {diff && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>비교 결과</CardTitle>
+                <CardDescription>
+                  {diff.before.fileName} · {diff.before.sheetName} ({diff.before.rowCount.toLocaleString()}행) → {diff.after.fileName} · {diff.after.sheetName} ({diff.after.rowCount.toLocaleString()}행)
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleDownloadJSON}>
+                  <Download className="mr-2 h-4 w-4" />
+                  JSON
+                </Button>
+                <Button onClick={handleDownloadXLSX} disabled={isDownloading}>
+                  {isDownloading ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="mr-2 h-4 w-4" />
+                  )}
+                  XLSX
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(Object.keys(ROW_DIFF_STATUS_LABELS) as RowDiffStatus[]).map(status => (
+                <button
+                  key={status}
+                  type="button"
+                  className={cn(
+                    'p-3 rounded-md border text-left',
+                    STATUS_CLASSES[status],
+                    statusFilter === status && 'ring-2 ring-primary'
+                  )}
+                  onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+                >
+                  <div className="text-xs">{ROW_DIFF_STATUS_LABELS[status]}</div>
+                  <div className="text-2xl font-bold">{diff.summary[status].toLocaleString()}</div>
+                </button>
+              ))}
+              <div className="p-3 rounded-md border">
+                <div className="text-xs text-muted-foreground">같음</div>
+                <div className="text-2xl font-bold">{diff.summary.unchanged.toLocaleString()}</div>
+              </div>
+            </div>
+
+            {(diff.addedColumns.length > 0 || diff.removedColumns.length > 0) && (
+              <div className="text-xs space-y-1">
+                {diff.addedColumns.length > 0 && <p>추가된 열: <span className="font-mono">{diff.addedColumns.join(', ')}</span></p>}
+                {diff.removedColumns.length > 0 && <p>삭제된 열: <span className="font-mono">{diff.removedColumns.join(', ')}</span></p>}
+                <p className="text-muted-foreground">한쪽에만 있는 열은 셀 변경으로 비교하지 않습니다</p>
+              </div>
+            )}
+
+            {(diff.duplicateKeys.length > 0 || diff.emptyKeyRowsCount > 0) && (
+              <div className="p-3 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-900 rounded-md text-xs space-y-1">
+                {diff.duplicateKeys.length > 0 && (
+                  <p>
+                    키가 중복된 값 {diff.duplicateKeys.length.toLocaleString()}개 (나온 순서대로 짝지어 비교함):{' '}
+                    <span className="font-mono">{diff.duplicateKeys.slice(0, 20).join(', ')}{diff.duplicateKeys.length > 20 && ' ...'}</span>
+                  </p>
+                )}
+                {diff.emptyKeyRowsCount > 0 && <p>키 열이 비어 있어 비교하지 않은 행 {diff.emptyKeyRowsCount.toLocaleString()}개</p>}
+              </div>
+            )}
+
+            {listedRows.length > 0 ? (
+              <div className="border rounded-md overflow-auto max-h-[480px]">
+                <Table>
+                  <TableHeader className="sticky top-0 bg-background">
+                    <TableRow>
+                      <TableHead className="w-16 bg-muted/50">상태</TableHead>
+                      <TableHead className="bg-muted/50">{diff.keyColumn}</TableHead>
+                      <TableHead className="w-20 bg-muted/50">이전 행</TableHead>
+                      <TableHead className="w-20 bg-muted/50">이후 행</TableHead>
+                      <TableHead className="bg-muted/50">변경 내용</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {listedRows.slice(0, MAX_LISTED_ROWS).map((row, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <span className={cn('px-2 py-0.5 rounded text-xs', STATUS_CLASSES[row.status])}>
+                            {ROW_DIFF_STATUS_LABELS[row.status]}
+                          </span>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{row.key}</TableCell>
+                        <TableCell className="text-xs">{row.beforeRow ?? ''}</TableCell>
+                        <TableCell className="text-xs">{row.afterRow ?? ''}</TableCell>
+                        <TableCell className="text-xs">
+                          {row.status === 'changed' ? (
+                            <ul className="space-y-0.5">
+                              {row.changes.map(change => (
+                                <li key={change.column} className="font-mono">
+                                  {change.column}: <span className="line-through text-muted-foreground">{formatValue(change.before)}</span> → {formatValue(change.after)}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="font-mono text-muted-foreground">
+                              {diff.columns
+                                .filter(column => column !== diff.keyColumn && row.values[column] !== null)
+                                .map(column => `${column}: ${formatValue(row.values[column])}`)
+                                .join(' · ')}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                {statusFilter ? `${ROW_DIFF_STATUS_LABELS[statusFilter]}된 행이 없습니다` : '두 시트의 내용이 같습니다'}
+              </p>
+            )}
+            {listedRows.length > MAX_LISTED_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                +{(listedRows.length - MAX_LISTED_ROWS).toLocaleString()}행 더... (전체 결과는 JSON 또는 XLSX로 다운로드하세요)
+              </p>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              XLSX의 &quot;비교 결과&quot; 시트에서 추가된 행은 초록색, 삭제된 행은 빨간색, 바뀐 셀은 노란색으로 표시되며 바뀐 셀의 메모에 이전 값이 남습니다. &quot;셀 변경&quot; 시트에는 바뀐 셀이 한 행씩 정리됩니다.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
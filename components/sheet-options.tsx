@@ -0,0 +1,407 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertCircle } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ColumnMappingEditor, COLUMN_TYPE_LABELS, VALUE_MODE_LABELS } from '@/components/column-mapping-editor'
+import { ValidationRulesEditor, VALIDATION_RULE_LABELS } from '@/components/validation-rules-editor'
+import { DuplicateRowsEditor } from '@/components/duplicate-rows-editor'
+import { CleaningStepsEditor } from '@/components/cleaning-steps-editor'
+import { ReshapeEditor } from '@/components/reshape-editor'
+import {
+  DEFAULT_HEADER_SEPARATOR,
+  COMPANION_COLUMN_SUFFIXES,
+  parseA1Range,
+  type ColumnType,
+  type AnnotationMode,
+  type CoercionIssue,
+  type FormulaMode,
+  type SheetExportOptions,
+  type ValueMode,
+} from '@/lib/excel-converter'
+import type { ColumnMappingPreset } from '@/lib/column-presets'
+import type { ValidationIssue } from '@/lib/column-validation'
+import type { DuplicateGroup } from '@/lib/duplicate-rows'
+import type { CleaningChange } from '@/lib/value-cleaning'
+
+const MAX_LISTED_ISSUES = 20
+const MAX_LISTED_MISSING_VALUES = 20
+
+const FORMULA_MODE_LABELS: Record<FormulaMode, string> = {
+  values: '계산 결과만',
+  formulas: '수식으로 대체',
+  both: '계산 결과 + 수식 열',
+}
+
+const ANNOTATION_MODE_LABELS: Record<AnnotationMode, string> = {
+  none: '내보내지 않음',
+  columns: '보조 열 추가',
+  objects: 'JSON 객체로',
+}
+
+interface SheetOptionsProps {
+  sheetName: string
+  rowCount: number
+  mergedRegionsCount: number
+  formulaCellsCount: number
+  missingCachedValues: string[]
+  hyperlinkCellsCount: number
+  commentCellsCount: number
+  options: SheetExportOptions
+  onChange: (options: SheetExportOptions) => void
+  sourceColumns: Array<{ key: string; inferredType: ColumnType }>
+  issues: CoercionIssue[]
+  validationIssues: ValidationIssue[]
+  duplicateGroups: DuplicateGroup[]
+  cleaningChanges: CleaningChange[]
+  cleanedCellsCount: number
+  mappedColumns: string[]
+  reshapePreview: { headers: string[]; rows: any[][]; totalRows: number } | null
+  presets: ColumnMappingPreset[]
+  onPresetsChange: (presets: ColumnMappingPreset[]) => void
+}
+
+export function SheetOptions({ sheetName, rowCount, mergedRegionsCount, formulaCellsCount, missingCachedValues, hyperlinkCellsCount, commentCellsCount, options, onChange, sourceColumns, issues, validationIssues, duplicateGroups, cleaningChanges, cleanedCellsCount, mappedColumns, reshapePreview, presets, onPresetsChange }: SheetOptionsProps) {
+  const updateNumber = (key: 'headerRow' | 'headerRowCount' | 'skipRows', value: string, min: number) => {
+    const parsed = parseInt(value, 10)
+    onChange({ ...options, [key]: isNaN(parsed) ? undefined : Math.max(min, parsed) })
+  }
+
+  // 입력 중인 범위는 올바른 A1 범위가 되었을 때만 옵션에 반영합니다
+  const [rangeDraft, setRangeDraft] = useState(options.range ?? '')
+  const [rangeError, setRangeError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setRangeDraft(options.range ?? '')
+    setRangeError(null)
+  }, [options.range])
+
+  const updateRange = (value: string) => {
+    setRangeDraft(value)
+    if (value.trim() === '') {
+      setRangeError(null)
+      onChange({ ...options, range: undefined })
+      return
+    }
+
+    try {
+      parseA1Range(value)
+      setRangeError(null)
+      onChange({ ...options, range: value.trim().toUpperCase() })
+    } catch (error) {
+      setRangeError((error as Error).message)
+    }
+  }
+
+  const idPrefix = `sheet-options-${sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')}`
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-medium">내보낼 범위</div>
+      <div>
+        <Input
+          id={`${idPrefix}-range`}
+          placeholder="시트 전체 (예: B4:K250)"
+          value={rangeDraft}
+          onChange={(e) => updateRange(e.target.value)}
+          className="h-8 font-mono max-w-xs"
+        />
+        {rangeError ? (
+          <p className="text-xs text-destructive mt-1">{rangeError}</p>
+        ) : (
+          <p className="text-xs text-muted-foreground mt-1">
+            범위 밖의 메모, 합계, 보조 표는 모든 형식에서 제외되며 범위의 첫 행이 헤더가 됩니다. 미리보기에서 셀을 드래그하여 선택할 수도 있습니다.
+          </p>
+        )}
+      </div>
+
+      <div className="text-sm font-medium pt-3 border-t">헤더 설정</div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label htmlFor={`${idPrefix}-header-row`} className="text-xs text-muted-foreground mb-1 block">
+            헤더 시작 행
+          </label>
+          <Input
+            id={`${idPrefix}-header-row`}
+            type="number"
+            min={1}
+            max={Math.max(1, rowCount)}
+            placeholder="1"
+            value={options.headerRow ?? ''}
+            onChange={(e) => updateNumber('headerRow', e.target.value, 1)}
+            className="h-8"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-header-count`} className="text-xs text-muted-foreground mb-1 block">
+            헤더 행 수
+          </label>
+          <Input
+            id={`${idPrefix}-header-count`}
+            type="number"
+            min={0}
+            placeholder="1"
+            value={options.headerRowCount ?? ''}
+            onChange={(e) => updateNumber('headerRowCount', e.target.value, 0)}
+            className="h-8"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-skip-rows`} className="text-xs text-muted-foreground mb-1 block">
+            헤더 아래 건너뛸 행
+          </label>
+          <Input
+            id={`${idPrefix}-skip-rows`}
+            type="number"
+            min={0}
+            placeholder="0"
+            value={options.skipRows ?? ''}
+            onChange={(e) => updateNumber('skipRows', e.target.value, 0)}
+            className="h-8"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-separator`} className="text-xs text-muted-foreground mb-1 block">
+            다중 헤더 구분자
+          </label>
+          <Input
+            id={`${idPrefix}-separator`}
+            placeholder={DEFAULT_HEADER_SEPARATOR}
+            value={options.headerSeparator ?? ''}
+            onChange={(e) => onChange({ ...options, headerSeparator: e.target.value || undefined })}
+            className="h-8 font-mono"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        헤더 시작 행 위의 행(제목 배너 등)은 무시됩니다. 헤더 행이 여러 개면 &quot;2025{options.headerSeparator || DEFAULT_HEADER_SEPARATOR}Q1&quot;처럼 하나의 키로 합쳐지며, 헤더 행 수를 0으로 지정하면 열 문자(A, B, ...)를 키로 사용합니다.
+      </p>
+
+      <div className="flex items-start space-x-3 pt-3 border-t">
+        <Checkbox
+          id={`${idPrefix}-fill-merged`}
+          checked={!!options.fillMergedCells}
+          onCheckedChange={(checked) => onChange({ ...options, fillMergedCells: checked === true })}
+          disabled={mergedRegionsCount === 0}
+        />
+        <div className="flex-1">
+          <label
+            htmlFor={`${idPrefix}-fill-merged`}
+            className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
+          >
+            병합된 셀 값 채우기 ({mergedRegionsCount}개 영역)
+          </label>
+          <p className="text-xs text-muted-foreground mt-1">
+            병합된 영역의 모든 셀에 왼쪽 위 셀의 값을 넣어 CSV/JSON으로 내보냅니다
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2 pt-3 border-t">
+        <div className="flex items-center justify-between gap-3">
+          <label htmlFor={`${idPrefix}-value-mode`} className="text-sm font-medium">
+            셀 값 형식
+          </label>
+          <Select
+            value={options.valueMode ?? 'default'}
+            onValueChange={(value) => onChange({ ...options, valueMode: value === 'default' ? undefined : value as ValueMode })}
+          >
+            <SelectTrigger id={`${idPrefix}-value-mode`} className="h-8 w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">형식별 기본값</SelectItem>
+              {(Object.keys(VALUE_MODE_LABELS) as ValueMode[]).map(mode => (
+                <SelectItem key={mode} value={mode}>{VALUE_MODE_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          원래 값은 0.125, 45717(날짜 일련번호)처럼, 표시 형식은 &quot;12.5%&quot;, &quot;2025-03-01&quot;처럼 Excel에 보이는 그대로 내보냅니다. 기본값은 CSV는 표시 형식, JSON 등 그 밖의 형식은 원래 값이며, 열 매핑에서 열별로 바꿀 수 있습니다.
+        </p>
+      </div>
+
+      <div className="space-y-2 pt-3 border-t">
+        <div className="flex items-center justify-between gap-3">
+          <label htmlFor={`${idPrefix}-formula-mode`} className="text-sm font-medium">
+            수식 셀 ({formulaCellsCount.toLocaleString()}개)
+          </label>
+          <Select
+            value={options.formulaMode ?? 'values'}
+            onValueChange={(value) => onChange({ ...options, formulaMode: value === 'values' ? undefined : value as FormulaMode })}
+            disabled={formulaCellsCount === 0}
+          >
+            <SelectTrigger id={`${idPrefix}-formula-mode`} className="h-8 w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FORMULA_MODE_LABELS) as FormulaMode[]).map(mode => (
+                <SelectItem key={mode} value={mode}>{FORMULA_MODE_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          수식으로 대체하면 수식 셀을 &quot;=SUM(A1:A3)&quot; 같은 텍스트로 내보냅니다. 수식 열을 추가하면 수식이 있는 열마다 &quot;열이름{COMPANION_COLUMN_SUFFIXES.formula}&quot; 열이 바로 뒤에 생깁니다.
+        </p>
+        {missingCachedValues.length > 0 && (options.formulaMode ?? 'values') !== 'formulas' && (
+          <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md space-y-1">
+            <div className="flex items-center gap-2 text-sm text-destructive font-medium">
+              <AlertCircle className="h-4 w-4" />
+              계산 결과가 없는 수식 {missingCachedValues.length.toLocaleString()}개 (빈 값으로 내보냄)
+            </div>
+            <p className="text-xs font-mono break-all">
+              {missingCachedValues.slice(0, MAX_LISTED_MISSING_VALUES).join(', ')}
+              {missingCachedValues.length > MAX_LISTED_MISSING_VALUES && ` 외 ${missingCachedValues.length - MAX_LISTED_MISSING_VALUES}개`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              다른 프로그램에서 만든 파일은 계산 결과가 저장되지 않았을 수 있습니다. Excel에서 열어 저장하거나 수식으로 내보내세요.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2 pt-3 border-t">
+        <div className="flex items-center justify-between gap-3">
+          <label htmlFor={`${idPrefix}-annotation-mode`} className="text-sm font-medium">
+            하이퍼링크 {hyperlinkCellsCount.toLocaleString()}개 · 메모 {commentCellsCount.toLocaleString()}개
+          </label>
+          <Select
+            value={options.annotationMode ?? 'none'}
+            onValueChange={(value) => onChange({ ...options, annotationMode: value === 'none' ? undefined : value as AnnotationMode })}
+            disabled={hyperlinkCellsCount === 0 && commentCellsCount === 0}
+          >
+            <SelectTrigger id={`${idPrefix}-annotation-mode`} className="h-8 w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ANNOTATION_MODE_LABELS) as AnnotationMode[]).map(mode => (
+                <SelectItem key={mode} value={mode}>{ANNOTATION_MODE_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          보조 열을 추가하면 링크나 메모가 있는 열마다 &quot;열이름{COMPANION_COLUMN_SUFFIXES.link}&quot;, &quot;열이름{COMPANION_COLUMN_SUFFIXES.comment}&quot; 열이 생깁니다. JSON 객체로 내보내면 JSON/NDJSON/중첩 JSON에서 해당 열의 값이 {'{ value, link, comment }'} 객체가 되고, 그 밖의 형식은 보조 열로 내보냅니다.
+        </p>
+      </div>
+
+      <div className="space-y-3 pt-3 border-t">
+        <div className="flex items-start space-x-3">
+          <Checkbox
+            id={`${idPrefix}-coerce-types`}
+            checked={!!options.coerceTypes}
+            onCheckedChange={(checked) => onChange({ ...options, coerceTypes: checked === true })}
+          />
+          <div className="flex-1">
+            <label
+              htmlFor={`${idPrefix}-coerce-types`}
+              className="text-sm font-medium leading-none cursor-pointer"
+            >
+              열 타입에 맞게 JSON 값 변환
+            </label>
+            <p className="text-xs text-muted-foreground mt-1">
+              날짜는 ISO-8601 문자열, 숫자는 실수, 예/아니오는 불리언으로 변환하고 빈 셀은 null로 내보냅니다
+            </p>
+          </div>
+        </div>
+
+        {options.coerceTypes && issues.length > 0 && (
+          <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md space-y-2">
+            <div className="flex items-center gap-2 text-sm text-destructive font-medium">
+              <AlertCircle className="h-4 w-4" />
+              타입 변환 실패 {issues.length.toLocaleString()}건 (원래 값 그대로 내보냄)
+            </div>
+            <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+              {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                <li key={index} className="font-mono">
+                  {issue.row}행 · {issue.column} · {JSON.stringify(issue.value)} → {COLUMN_TYPE_LABELS[issue.expectedType]}
+                </li>
+              ))}
+            </ul>
+            {issues.length > MAX_LISTED_ISSUES && (
+              <p className="text-xs text-muted-foreground">
+                +{issues.length - MAX_LISTED_ISSUES}건 더... (전체 목록은 다운로드한 ZIP의 보고서 파일에 포함됩니다)
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="pt-3 border-t">
+        <CleaningStepsEditor
+          sheetName={sheetName}
+          options={options}
+          onChange={onChange}
+          changes={cleaningChanges}
+          cleanedCellsCount={cleanedCellsCount}
+        />
+      </div>
+
+      <div className="pt-3 border-t">
+        <DuplicateRowsEditor
+          sheetName={sheetName}
+          sourceColumns={sourceColumns}
+          options={options}
+          onChange={onChange}
+          groupCount={duplicateGroups.length}
+          rowCount={duplicateGroups.reduce((sum, group) => sum + group.rowNumbers.length, 0)}
+        />
+      </div>
+
+      <div className="space-y-3 pt-3 border-t">
+        <ValidationRulesEditor
+          sheetName={sheetName}
+          sourceColumns={sourceColumns}
+          options={options}
+          onChange={onChange}
+        />
+
+        {validationIssues.length > 0 && (
+          <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md space-y-2">
+            <div className="flex items-center gap-2 text-sm text-destructive font-medium">
+              <AlertCircle className="h-4 w-4" />
+              검증 규칙 위반 {validationIssues.length.toLocaleString()}건
+            </div>
+            <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+              {validationIssues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                <li key={index} className="font-mono">
+                  {issue.row}행 · {issue.column} · {VALIDATION_RULE_LABELS[issue.rule]} · {JSON.stringify(issue.value ?? null)} ({issue.message})
+                </li>
+              ))}
+            </ul>
+            {validationIssues.length > MAX_LISTED_ISSUES && (
+              <p className="text-xs text-muted-foreground">
+                +{validationIssues.length - MAX_LISTED_ISSUES}건 더... (전체 목록은 미리보기에서 보고서로 다운로드할 수 있습니다)
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="pt-3 border-t">
+        <ColumnMappingEditor
+          sheetName={sheetName}
+          sourceColumns={sourceColumns}
+          options={options}
+          onChange={onChange}
+          presets={presets}
+          onPresetsChange={onPresetsChange}
+        />
+      </div>
+
+      <div className="pt-3 border-t">
+        <ReshapeEditor
+          sheetName={sheetName}
+          columns={mappedColumns}
+          options={options}
+          onChange={onChange}
+          preview={reshapePreview}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { formatFileSize } from '@/lib/excel-converter'
+import {
+  decodeText,
+  detectDelimiter,
+  detectTextEncoding,
+  getDelimitedTextPreview,
+  TEXT_DELIMITERS,
+  type DelimitedText,
+  type TextDelimiter,
+  type TextEncoding,
+} from '@/lib/delimited-text'
+
+const PREVIEW_ROWS = 10
+
+const TEXT_ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8 (BOM)',
+  cp949: 'CP949 (EUC-KR)',
+}
+
+const TEXT_DELIMITER_LABELS: Record<TextDelimiter, string> = {
+  ',': '쉼표 (,)',
+  '\t': '탭',
+  ';': '세미콜론 (;)',
+  '|': '파이프 (|)',
+}
+
+/**
+ * 불러오기 전에 인코딩과 구분자를 확인할 텍스트 파일
+ */
+export interface PendingTextFile {
+  file: File
+  bytes: Uint8Array
+}
+
+interface TextImportDialogProps {
+  pending: PendingTextFile | null
+  onConfirm: (file: File, source: DelimitedText) => void
+  onCancel: () => void
+}
+
+export function TextImportDialog({ pending, onConfirm, onCancel }: TextImportDialogProps) {
+  // 파일을 고르면 인코딩과 구분자를 자동으로 감지하고, 사용자가 바꿀 수 있게 합니다
+  const detected = useMemo(() => {
+    if (!pending) return null
+    const encoding = detectTextEncoding(pending.bytes)
+    const delimiter = detectDelimiter(decodeText(pending.bytes, encoding), pending.file.name)
+    return { encoding, delimiter }
+  }, [pending])
+
+  const [encoding, setEncoding] = useState<TextEncoding>('utf-8')
+  const [delimiter, setDelimiter] = useState<TextDelimiter>(',')
+
+  useEffect(() => {
+    if (!detected) return
+    setEncoding(detected.encoding)
+    setDelimiter(detected.delimiter)
+  }, [detected])
+
+  const text = useMemo(() => (pending ? decodeText(pending.bytes, encoding) : ''), [pending, encoding])
+  const previewRows = useMemo(() => getDelimitedTextPreview(text, delimiter, PREVIEW_ROWS + 1), [text, delimiter])
+  const [headerRow = [], ...dataRows] = previewRows
+  const columnCount = previewRows.reduce((max, row) => Math.max(max, row.length), 0)
+  const hasBrokenCharacters = text.includes('�')
+
+  const handleConfirm = () => {
+    if (!pending) return
+    onConfirm(pending.file, { text, delimiter, sheetName: pending.file.name.replace(/\.[^/.]+$/, '') })
+  }
+
+  return (
+    <Dialog open={!!pending} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>텍스트 파일 불러오기</DialogTitle>
+          <DialogDescription>
+            {pending && `${pending.file.name} · ${formatFileSize(pending.file.size)}`}
+            {detected && ` · 자동 감지: ${TEXT_ENCODING_LABELS[detected.encoding]}, ${TEXT_DELIMITER_LABELS[detected.delimiter]}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="text-import-encoding" className="text-xs text-muted-foreground mb-1 block">
+              인코딩
+            </label>
+            <Select value={encoding} onValueChange={(value) => setEncoding(value as TextEncoding)}>
+              <SelectTrigger id="text-import-encoding" className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TEXT_ENCODING_LABELS) as TextEncoding[]).map(option => (
+                  <SelectItem key={option} value={option}>{TEXT_ENCODING_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label htmlFor="text-import-delimiter" className="text-xs text-muted-foreground mb-1 block">
+              구분자
+            </label>
+            <Select value={delimiter} onValueChange={(value) => setDelimiter(value as TextDelimiter)}>
+              <SelectTrigger id="text-import-delimiter" className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TEXT_DELIMITERS.map(option => (
+                  <SelectItem key={option} value={option}>{TEXT_DELIMITER_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {hasBrokenCharacters && (
+          <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            이 인코딩으로 읽을 수 없는 글자가 있습니다 (�). 다른 인코딩을 선택해 보세요.
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto border rounded-md min-h-0">
+          <Table>
+            <TableHeader className="sticky top-0 bg-background">
+              <TableRow>
+                {Array.from({ length: columnCount }, (_, j) => (
+                  <TableHead key={j} className="whitespace-nowrap bg-muted/50">{headerRow[j] ?? ''}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {dataRows.map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {Array.from({ length: columnCount }, (_, j) => (
+                    <TableCell key={j} className="whitespace-nowrap text-xs font-mono">{row[j] ?? ''}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          처음 {PREVIEW_ROWS}행과 {columnCount.toLocaleString()}개 열을 미리 봅니다. 불러오면 첫 행을 헤더로 하는 시트 하나가 되며, &quot;00123&quot; 같은 코드는 텍스트로 유지되고 날짜는 열 타입 감지에서 판별됩니다.
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>취소</Button>
+          <Button onClick={handleConfirm} disabled={columnCount === 0}>불러오기</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
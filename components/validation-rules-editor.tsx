@@ -0,0 +1,215 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, RotateCcw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { ColumnType, SheetExportOptions } from '@/lib/excel-converter'
+import { describeValidationRule, isValidPattern, type ColumnValidationRule, type ValidationRuleType } from '@/lib/column-validation'
+import { cn } from '@/lib/utils'
+
+export const VALIDATION_RULE_LABELS: Record<ValidationRuleType, string> = {
+  required: '필수',
+  unique: '고유',
+  pattern: '정규식',
+  range: '숫자 범위',
+  allowed: '허용 값',
+  dateRange: '날짜 범위',
+}
+
+interface RuleDraft {
+  column: string
+  type: ValidationRuleType
+  pattern: string
+  min: string
+  max: string
+  values: string
+  minDate: string
+  maxDate: string
+}
+
+const EMPTY_DRAFT: Omit<RuleDraft, 'column'> = {
+  type: 'required',
+  pattern: '',
+  min: '',
+  max: '',
+  values: '',
+  minDate: '',
+  maxDate: '',
+}
+
+/**
+ * 입력한 조건으로 규칙을 만듭니다
+ * @returns 조건이 비어 있거나 올바르지 않으면 null
+ */
+function draftToRule(draft: RuleDraft): ColumnValidationRule | null {
+  switch (draft.type) {
+    case 'pattern':
+      return draft.pattern && isValidPattern(draft.pattern) ? { type: 'pattern', pattern: draft.pattern } : null
+    case 'range': {
+      const min = draft.min.trim() === '' ? undefined : Number(draft.min)
+      const max = draft.max.trim() === '' ? undefined : Number(draft.max)
+      if ((min === undefined && max === undefined) || Number.isNaN(min) || Number.isNaN(max)) return null
+      if (min !== undefined && max !== undefined && min > max) return null
+      return { type: 'range', min, max }
+    }
+    case 'allowed': {
+      const values = draft.values.split(',').map(value => value.trim()).filter(Boolean)
+      return values.length > 0 ? { type: 'allowed', values } : null
+    }
+    case 'dateRange':
+      if (!draft.minDate && !draft.maxDate) return null
+      if (draft.minDate && draft.maxDate && draft.minDate > draft.maxDate) return null
+      return { type: 'dateRange', minDate: draft.minDate || undefined, maxDate: draft.maxDate || undefined }
+    default:
+      return { type: draft.type }
+  }
+}
+
+interface ValidationRulesEditorProps {
+  sheetName: string
+  sourceColumns: Array<{ key: string; inferredType: ColumnType }>
+  options: SheetExportOptions
+  onChange: (options: SheetExportOptions) => void
+}
+
+export function ValidationRulesEditor({ sheetName, sourceColumns, options, onChange }: ValidationRulesEditorProps) {
+  const [draft, setDraft] = useState<RuleDraft>({ column: '', ...EMPTY_DRAFT })
+
+  const rules = options.validationRules ?? {}
+  const column = draft.column || sourceColumns[0]?.key || ''
+  const rule = draftToRule({ ...draft, column })
+
+  const updateRules = (next: Record<string, ColumnValidationRule[]>) => {
+    onChange({ ...options, validationRules: Object.keys(next).length > 0 ? next : undefined })
+  }
+
+  const handleAddRule = () => {
+    if (!rule || !column) return
+    // 열마다 같은 종류의 규칙은 하나만 둡니다
+    const columnRules = (rules[column] ?? []).filter(existing => existing.type !== rule.type)
+    updateRules({ ...rules, [column]: [...columnRules, rule] })
+    setDraft({ column, ...EMPTY_DRAFT, type: draft.type })
+  }
+
+  const handleRemoveRule = (key: string, index: number) => {
+    const next = { ...rules, [key]: rules[key].filter((_, i) => i !== index) }
+    if (next[key].length === 0) delete next[key]
+    updateRules(next)
+  }
+
+  const updateDraft = (changes: Partial<RuleDraft>) => setDraft({ ...draft, column, ...changes })
+
+  const idPrefix = `validation-rules-${sheetName.replace(/[^a-zA-Z0-9가-힣]/g, '_')}`
+  const ruleEntries = Object.entries(rules).flatMap(([key, columnRules]) =>
+    columnRules.map((columnRule, index) => ({ key, rule: columnRule, index }))
+  )
+  const sourceKeys = new Set(sourceColumns.map(sourceColumn => sourceColumn.key))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">검증 규칙</div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 text-xs"
+          onClick={() => updateRules({})}
+          disabled={ruleEntries.length === 0}
+        >
+          <RotateCcw className="mr-1 h-3 w-3" />
+          초기화
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={column} onValueChange={(value) => updateDraft({ column: value })} disabled={sourceColumns.length === 0}>
+          <SelectTrigger id={`${idPrefix}-column`} className="h-8 w-[160px] text-xs" title="검사할 열">
+            <SelectValue placeholder="열 선택" />
+          </SelectTrigger>
+          <SelectContent>
+            {sourceColumns.map(sourceColumn => (
+              <SelectItem key={sourceColumn.key} value={sourceColumn.key}>{sourceColumn.key}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={draft.type} onValueChange={(value) => updateDraft({ type: value as ValidationRuleType })}>
+          <SelectTrigger className="h-8 w-[120px] text-xs" title="규칙">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(VALIDATION_RULE_LABELS) as ValidationRuleType[]).map(type => (
+              <SelectItem key={type} value={type}>{VALIDATION_RULE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {draft.type === 'pattern' && (
+          <Input
+            placeholder="예: ^[A-Z]{3}-\d{4}$"
+            value={draft.pattern}
+            onChange={(e) => updateDraft({ pattern: e.target.value })}
+            className={cn('h-8 text-xs font-mono flex-1 min-w-[160px]', draft.pattern && !isValidPattern(draft.pattern) && 'border-destructive')}
+          />
+        )}
+        {draft.type === 'range' && (
+          <>
+            <Input type="number" placeholder="최솟값" value={draft.min} onChange={(e) => updateDraft({ min: e.target.value })} className="h-8 text-xs w-24" />
+            <span className="text-xs text-muted-foreground">~</span>
+            <Input type="number" placeholder="최댓값" value={draft.max} onChange={(e) => updateDraft({ max: e.target.value })} className="h-8 text-xs w-24" />
+          </>
+        )}
+        {draft.type === 'allowed' && (
+          <Input
+            placeholder="쉼표로 구분 (예: 서울, 부산, 대구)"
+            value={draft.values}
+            onChange={(e) => updateDraft({ values: e.target.value })}
+            className="h-8 text-xs flex-1 min-w-[160px]"
+          />
+        )}
+        {draft.type === 'dateRange' && (
+          <>
+            <Input type="date" value={draft.minDate} onChange={(e) => updateDraft({ minDate: e.target.value })} className="h-8 text-xs w-36" />
+            <span className="text-xs text-muted-foreground">~</span>
+            <Input type="date" value={draft.maxDate} onChange={(e) => updateDraft({ maxDate: e.target.value })} className="h-8 text-xs w-36" />
+          </>
+        )}
+
+        <Button size="sm" variant="outline" className="h-8" onClick={handleAddRule} disabled={!rule || !column}>
+          <Plus className="mr-1 h-3 w-3" />
+          추가
+        </Button>
+      </div>
+
+      {ruleEntries.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {ruleEntries.map(({ key, rule: columnRule, index }) => (
+            <div
+              key={`${key}-${columnRule.type}`}
+              className={cn('flex items-center rounded-md border text-xs', !sourceKeys.has(key) && 'opacity-50')}
+              title={sourceKeys.has(key) ? undefined : '현재 헤더 설정에 없는 열입니다'}
+            >
+              <span className="px-2 py-1">
+                <span className="font-medium">{key}</span> · {VALIDATION_RULE_LABELS[columnRule.type]}
+                {describeValidationRule(columnRule) && <span className="font-mono text-muted-foreground"> {describeValidationRule(columnRule)}</span>}
+              </span>
+              <button
+                type="button"
+                className="px-1 py-1 border-l hover:bg-muted"
+                onClick={() => handleRemoveRule(key, index)}
+                title="규칙 삭제"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        빈 셀은 필수 규칙에서만 위반으로 처리합니다. 규칙은 열 매핑 프리셋에 함께 저장되어 열 구성이 같은 파일을 올리면 자동으로 검사합니다.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import { useState, useRef } from 'react'
+import { Upload, FileJson, Download, Loader2, AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { downloadFile } from '@/lib/excel-converter'
+import { buildWorkbookFromData, detectDataFormat, parseDataFile, writeStyledXLSX, type DataFileFormat, type DataSheet } from '@/lib/xlsx-builder'
+
+const PREVIEW_ROWS = 5
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+const DATA_FORMAT_LABELS: Record<DataFileFormat, string> = {
+  json: 'JSON',
+  ndjson: 'NDJSON',
+  csv: 'CSV',
+}
+
+interface LoadedData {
+  fileName: string // 확장자를 뺀 파일 이름
+  format: DataFileFormat
+  sheets: DataSheet[]
+}
+
+function formatPreviewValue(value: any): string {
+  if (value === null || value === undefined) return ''
+  return String(value)
+}
+
+export function XlsxBuilder() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [data, setData] = useState<LoadedData | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // 같은 파일을 다시 선택해도 변경 이벤트가 발생하도록 비웁니다
+    event.target.value = ''
+    if (!file) return
+
+    const validExtensions = ['.json', '.ndjson', '.jsonl', '.csv', '.tsv', '.txt']
+    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase()
+
+    if (!validExtensions.includes(fileExtension)) {
+      setError('JSON, NDJSON, CSV 파일만 업로드 가능합니다 (.json, .ndjson, .jsonl, .csv, .tsv, .txt)')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const text = await file.text()
+      const format = detectDataFormat(file.name, text)
+      const baseName = file.name.replace(/\.[^.]+$/, '')
+      const sheets = parseDataFile(text, format, baseName)
+      if (sheets.every(sheet => sheet.rows.length === 0)) {
+        throw new Error('변환할 데이터가 없습니다')
+      }
+      setData({ fileName: baseName, format, sheets })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다')
+      setData(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDownload = async () => {
+    if (!data) return
+
+    setIsDownloading(true)
+    try {
+      const content = await writeStyledXLSX(buildWorkbookFromData(data.sheets))
+      downloadFile(content, `${data.fileName}.xlsx`, XLSX_MIME_TYPE)
+    } catch (error) {
+      setError('다운로드 중 오류가 발생했습니다: ' + (error as Error).message)
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold mb-2">XLSX 만들기</h2>
+        <p className="text-muted-foreground">
+          JSON, NDJSON, CSV 데이터를 Excel 파일로 변환하세요
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            데이터 파일 업로드
+          </CardTitle>
+          <CardDescription>
+            변환할 파일을 선택하세요 (.json, .ndjson, .jsonl, .csv, .tsv, .txt)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.ndjson,.jsonl,.csv,.tsv,.txt"
+            onChange={handleFileUpload}
+            className="hidden"
+            id="data-file-upload"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full cursor-pointer"
+            disabled={isLoading}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                파일 읽는 중...
+              </>
+            ) : (
+              <>
+                <FileJson className="mr-2 h-4 w-4" />
+                파일 선택
+              </>
+            )}
+          </Button>
+
+          <p className="mt-3 text-xs text-muted-foreground">
+            중첩된 객체와 배열은 &quot;address.city&quot;, &quot;tags[0]&quot; 형태의 열로 펼쳐지고, 배열 값만 가진 JSON 객체는 키마다 시트가 만들어집니다.
+            첫 행(헤더)은 굵게 표시되고 틀 고정되며, 열 너비는 내용에 맞게 조정됩니다.
+          </p>
+
+          {error && (
+            <div className="mt-4 p-4 bg-destructive/10 border border-destructive/20 rounded-md flex items-start gap-2">
+              <AlertCircle className="h-5 w-5 text-destructive mt-0.5" />
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {data && (
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>{data.fileName}.xlsx</CardTitle>
+                <CardDescription>
+                  {DATA_FORMAT_LABELS[data.format]} · 시트 {data.sheets.length}개 · 총 {data.sheets.reduce((sum, sheet) => sum + sheet.rows.length, 0).toLocaleString()}행
+                </CardDescription>
+              </div>
+              <Button onClick={handleDownload} disabled={isDownloading}>
+                {isDownloading ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 h-4 w-4" />
+                )}
+                XLSX 다운로드
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {data.sheets.map((sheet, sheetIndex) => (
+              <div key={sheetIndex} className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{sheet.name}</span>
+                  <span className="text-muted-foreground">
+                    {sheet.rows.length.toLocaleString()}행 × {sheet.headers.length}열
+                  </span>
+                </div>
+                {sheet.headers.length > 0 && (
+                  <div className="border rounded-md overflow-auto max-h-64">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {sheet.headers.map((header, colIndex) => (
+                            <TableHead key={colIndex} className="whitespace-nowrap bg-muted/50">
+                              {header}
+                            </TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sheet.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                          <TableRow key={rowIndex}>
+                            {sheet.headers.map((_, colIndex) => (
+                              <TableCell key={colIndex} className="whitespace-nowrap">
+                                {formatPreviewValue(row[colIndex])}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+                {sheet.rows.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-muted-foreground">
+                    처음 {PREVIEW_ROWS}행만 표시합니다
+                  </p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
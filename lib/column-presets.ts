@@ -0,0 +1,85 @@
+import type { SheetExportOptions } from '@/lib/excel-converter'
+
+// 클라이언트 사이드에서만 사용되는 함수들 (localStorage 사용)
+
+const STORAGE_KEY = 'column_mapping_presets'
+
+// 프리셋에 저장하는 옵션 (범위처럼 파일마다 달라지는 옵션은 제외)
+// 열 키를 바꾸는 옵션(수식 열 등)이 빠지면 파일을 올릴 때 같은 열 키를 구하지 못해 프리셋이 적용되지 않습니다
+export const PRESET_OPTION_KEYS = [
+  'headerRow',
+  'headerRowCount',
+  'skipRows',
+  'headerSeparator',
+  'fillMergedCells',
+  'formulaMode',
+  'annotationMode',
+  'coerceTypes',
+  'columnTypeOverrides',
+  'columnMapping',
+  'valueMode',
+  'columnValueModes',
+  'validationRules',
+  'duplicateKeys',
+  'duplicateMode',
+  'cleaningSteps',
+  'reshape',
+] as const
+
+export type PresetOptions = Pick<SheetExportOptions, (typeof PRESET_OPTION_KEYS)[number]>
+
+/**
+ * 이름을 붙여 저장한 열 매핑 설정
+ */
+export interface ColumnMappingPreset {
+  name: string
+  headers: string[] // 프리셋을 만든 시트의 열 키 (열 매핑 적용 전)
+  options: PresetOptions
+}
+
+/**
+ * 로컬 스토리지에서 저장된 프리셋 목록을 불러옵니다
+ */
+export function loadColumnPresets(): ColumnMappingPreset[] {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 프리셋 목록을 로컬 스토리지에 저장합니다
+ */
+export function saveColumnPresets(presets: ColumnMappingPreset[]) {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+}
+
+/**
+ * 현재 시트 옵션으로 프리셋을 만듭니다
+ * @param name - 프리셋 이름
+ * @param headers - 열 매핑 적용 전 열 키
+ * @param options - 현재 시트 옵션
+ */
+export function createColumnPreset(name: string, headers: string[], options: SheetExportOptions): ColumnMappingPreset {
+  const presetOptions: PresetOptions = {}
+  for (const key of PRESET_OPTION_KEYS) {
+    if (options[key] !== undefined) {
+      (presetOptions as Record<string, unknown>)[key] = options[key]
+    }
+  }
+  return { name: name.trim(), headers, options: presetOptions }
+}
+
+/**
+ * 시트의 열 키가 프리셋을 만든 시트와 같은지 확인합니다 (순서는 무시)
+ */
+export function matchesColumnPreset(headers: string[], preset: ColumnMappingPreset): boolean {
+  if (headers.length !== preset.headers.length) return false
+  const presetHeaders = new Set(preset.headers)
+  return headers.every(key => presetHeaders.has(key))
+}
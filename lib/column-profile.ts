@@ -0,0 +1,205 @@
+import * as XLSX from 'xlsx'
+import type { ColumnType } from '@/lib/excel-converter'
+import {
+  TEMPORAL_TYPES,
+  formatTemporalParts,
+  parseTemporalText,
+  serialToTemporalParts,
+  type TemporalParts,
+  type TemporalType,
+} from '@/lib/date-detection'
+import { escapeTableCell } from '@/lib/markdown-table-generator'
+
+const TOP_VALUES_COUNT = 10
+const MAX_TEXT_LENGTH = 100 // 가장 긴 문자열과 상위 값은 이 길이까지만 보관합니다
+
+/**
+ * 열 하나의 데이터 프로파일
+ */
+export interface ColumnProfile {
+  key: string // 첫 행의 헤더 (비어 있으면 열 문자)
+  type: ColumnType
+  count: number // 데이터 행 수 (헤더 제외)
+  nullCount: number // 빈 셀 수
+  nullRate: number // 빈 셀 비율 (0 ~ 1)
+  distinctCount: number // 빈 셀을 제외한 고유 값 수
+  numeric?: { min: number; max: number; mean: number; median: number } // 숫자 값 통계 (날짜/시간 열 제외)
+  dateRange?: { min: string; max: string } // 날짜/시간 열의 가장 이른/늦은(짧은/긴) 값 (ISO-8601)
+  longestText?: { value: string; length: number } // 가장 긴 문자열 값 (value는 잘린 텍스트)
+  topValues: Array<{ value: string; count: number }> // 가장 많이 나온 값 (최대 10개)
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text
+}
+
+function isTemporalType(type: ColumnType): type is TemporalType {
+  return (TEMPORAL_TYPES as ColumnType[]).includes(type)
+}
+
+/**
+ * 날짜/시간 열의 값을 비교할 수 있는 수와 표시할 ISO-8601 텍스트로 바꿉니다
+ * 숫자는 Excel 날짜 일련번호, 텍스트는 날짜/시간 텍스트로 해석합니다
+ */
+function toTemporalPoint(value: any, type: TemporalType, date1904: boolean): { time: number; label: string } | null {
+  let parts: TemporalParts | null
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null
+    parts = {
+      type,
+      y: value.getFullYear(),
+      m: value.getMonth() + 1,
+      d: value.getDate(),
+      H: value.getHours(),
+      M: value.getMinutes(),
+      S: value.getSeconds(),
+    }
+  } else if (typeof value === 'number') {
+    parts = serialToTemporalParts(value, type, date1904)
+  } else {
+    parts = parseTemporalText(String(value))
+  }
+  if (!parts) return null
+
+  const { y, m, d, H, M, S } = parts
+  return { time: ((y * 12 + m) * 31 + d) * 86400 + H * 3600 + M * 60 + S, label: formatTemporalParts(parts, type) }
+}
+
+function profileColumn(key: string, type: ColumnType, values: any[], date1904: boolean): ColumnProfile {
+  const counts = new Map<string, number>()
+  const numbers: number[] = []
+  let nullCount = 0
+  let earliest: { time: number; label: string } | null = null
+  let latest: { time: number; label: string } | null = null
+  let longest: string | null = null
+
+  for (const value of values) {
+    if (isEmptyValue(value)) {
+      nullCount++
+      continue
+    }
+
+    const text = value instanceof Date ? value.toISOString() : String(value)
+    counts.set(text, (counts.get(text) ?? 0) + 1)
+
+    if (isTemporalType(type)) {
+      const point = toTemporalPoint(value, type, date1904)
+      if (point && (!earliest || point.time < earliest.time)) earliest = point
+      if (point && (!latest || point.time > latest.time)) latest = point
+    } else if (typeof value === 'number' && Number.isFinite(value)) {
+      numbers.push(value)
+    }
+
+    if (typeof value === 'string' && (longest === null || value.length > longest.length)) {
+      longest = value
+    }
+  }
+
+  let numeric: ColumnProfile['numeric']
+  if (numbers.length > 0) {
+    const sorted = [...numbers].sort((a, b) => a - b)
+    const middle = Math.floor(sorted.length / 2)
+    numeric = {
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      mean: numbers.reduce((sum, n) => sum + n, 0) / numbers.length,
+      median: sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    }
+  }
+
+  // 개수가 같으면 먼저 나온 값이 앞에 옵니다 (Map은 추가한 순서를 유지하고 정렬은 안정적)
+  const topValues = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_VALUES_COUNT)
+    .map(([value, count]) => ({ value: truncate(value), count }))
+
+  return {
+    key,
+    type,
+    count: values.length,
+    nullCount,
+    nullRate: values.length > 0 ? nullCount / values.length : 0,
+    distinctCount: counts.size,
+    numeric,
+    dateRange: earliest && latest ? { min: earliest.label, max: latest.label } : undefined,
+    longestText: longest !== null ? { value: truncate(longest), length: longest.length } : undefined,
+    topValues,
+  }
+}
+
+/**
+ * 시트의 열별 프로파일을 계산합니다
+ * @param headers - 열별 헤더 (첫 행)
+ * @param rows - 데이터 행 (헤더 제외)
+ * @param columnTypes - 열별 추론 타입
+ * @param date1904 - 1904 날짜 체계 사용 여부 (날짜 일련번호 해석)
+ */
+export function profileColumns(headers: any[], rows: any[][], columnTypes: ColumnType[], date1904 = false): ColumnProfile[] {
+  return columnTypes.map((type, j) => {
+    const header = headers[j]
+    const key = isEmptyValue(header) ? XLSX.utils.encode_col(j) : String(header)
+    return profileColumn(key, type, rows.map(row => row?.[j]), date1904)
+  })
+}
+
+function formatStat(value: number | undefined): string {
+  if (value === undefined) return ''
+  return Number.isInteger(value) ? String(value) : String(Math.round(value * 10000) / 10000)
+}
+
+function formatRate(rate: number): string {
+  return `${formatStat(rate * 100)}%`
+}
+
+/**
+ * 열 프로파일을 JSON 문서로 만듭니다
+ */
+export function buildColumnProfileJSON(sheetName: string, profiles: ColumnProfile[]): string {
+  return JSON.stringify({ sheet: sheetName, rowCount: profiles[0]?.count ?? 0, columns: profiles }, null, 2)
+}
+
+/**
+ * 열 프로파일을 Markdown 문서로 만듭니다 (요약 표와 열별 상위 값 표)
+ */
+export function buildColumnProfileMarkdown(sheetName: string, profiles: ColumnProfile[]): string {
+  const lines = [
+    `# ${sheetName} 열 프로파일`,
+    '',
+    `데이터 행 ${(profiles[0]?.count ?? 0).toLocaleString()}개 · 열 ${profiles.length}개`,
+    '',
+    '| 열 | 타입 | 빈 값 비율 | 고유 값 | 최솟값 | 최댓값 | 평균 | 중앙값 | 가장 긴 문자열 |',
+    '| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | --- |',
+  ]
+
+  for (const profile of profiles) {
+    const min = profile.dateRange?.min ?? formatStat(profile.numeric?.min)
+    const max = profile.dateRange?.max ?? formatStat(profile.numeric?.max)
+    const longest = profile.longestText ? `${profile.longestText.value} (${profile.longestText.length}자)` : ''
+    lines.push(`| ${[
+      profile.key,
+      profile.type,
+      formatRate(profile.nullRate),
+      String(profile.distinctCount),
+      min,
+      max,
+      formatStat(profile.numeric?.mean),
+      formatStat(profile.numeric?.median),
+      longest,
+    ].map(escapeTableCell).join(' | ')} |`)
+  }
+
+  lines.push('', '## 상위 값')
+  for (const profile of profiles) {
+    if (profile.topValues.length === 0) continue
+    lines.push('', `### ${profile.key}`, '', '| 값 | 개수 |', '| --- | ---: |')
+    for (const { value, count } of profile.topValues) {
+      lines.push(`| ${escapeTableCell(value)} | ${count} |`)
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
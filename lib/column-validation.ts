@@ -0,0 +1,207 @@
+import * as XLSX from 'xlsx'
+import type { SheetTable } from '@/lib/excel-converter'
+import { parseTemporalText } from '@/lib/date-detection'
+
+/**
+ * 열 검증 규칙 종류
+ * - required: 빈 셀이 없어야 함
+ * - unique: 같은 값이 두 번 이상 나오지 않아야 함
+ * - pattern: 정규식과 일치해야 함
+ * - range: 숫자가 최솟값 ~ 최댓값 사이여야 함
+ * - allowed: 허용된 값 중 하나여야 함
+ * - dateRange: 날짜가 시작일 ~ 종료일 사이여야 함
+ */
+export type ValidationRuleType = 'required' | 'unique' | 'pattern' | 'range' | 'allowed' | 'dateRange'
+
+/**
+ * 열에 지정한 검증 규칙 (빈 셀은 required 규칙만 검사합니다)
+ */
+export interface ColumnValidationRule {
+  type: ValidationRuleType
+  pattern?: string // pattern: 정규식 (값 전체를 검사하려면 ^...$)
+  min?: number // range: 최솟값 (포함)
+  max?: number // range: 최댓값 (포함)
+  values?: string[] // allowed: 허용된 값 (앞뒤 공백을 제외하고 비교)
+  minDate?: string // dateRange: 시작일 (YYYY-MM-DD, 포함)
+  maxDate?: string // dateRange: 종료일 (YYYY-MM-DD, 포함)
+}
+
+/**
+ * 검증 규칙을 위반한 셀 정보
+ */
+export interface ValidationIssue {
+  rule: ValidationRuleType
+  row: number // 원본 시트 행 번호
+  column: string // 열 키 (열 매핑 적용 후)
+  value: any // 셀 값
+  message: string
+}
+
+/**
+ * 정규식으로 사용할 수 있는 문자열인지 확인합니다
+ */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 규칙의 조건을 사람이 읽을 수 있는 텍스트로 나타냅니다 (예: "0 ~ 100", "A, B, C")
+ */
+export function describeValidationRule(rule: ColumnValidationRule): string {
+  switch (rule.type) {
+    case 'pattern':
+      return `/${rule.pattern ?? ''}/`
+    case 'range':
+      return `${rule.min ?? ''} ~ ${rule.max ?? ''}`
+    case 'allowed':
+      return (rule.values ?? []).join(', ')
+    case 'dateRange':
+      return `${rule.minDate ?? ''} ~ ${rule.maxDate ?? ''}`
+    default:
+      return ''
+  }
+}
+
+function isBlank(value: any): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * 셀 값을 숫자로 바꿉니다 (천 단위 쉼표 허용)
+ * @returns 숫자가 아니면 null
+ */
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string') return null
+  const text = value.trim().replace(/,/g, '')
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) return null
+  return Number(text)
+}
+
+/**
+ * 셀 값을 YYYY-MM-DD 날짜 텍스트로 바꿉니다
+ * 숫자는 Excel 날짜 일련번호로, 텍스트는 2025-03-01, 2025.03.01, 2025년 3월 1일, 25/03/01 형식으로 해석합니다
+ * @returns 날짜가 아니면 null
+ */
+function toDateText(value: any, date1904: boolean): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10)
+  }
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value, { date1904 })
+    return parsed ? `${parsed.y}-${pad(parsed.m)}-${pad(parsed.d)}` : null
+  }
+  if (typeof value !== 'string') return null
+
+  const parsed = parseTemporalText(value)
+  if (!parsed || (parsed.type !== 'date' && parsed.type !== 'datetime')) return null
+  return `${parsed.y}-${pad(parsed.m)}-${pad(parsed.d)}`
+}
+
+/**
+ * 셀 하나가 규칙을 위반하면 그 이유를 반환합니다 (빈 셀과 unique 규칙은 호출하는 쪽에서 처리)
+ */
+function checkValue(value: any, rule: ColumnValidationRule, pattern: RegExp | null, date1904: boolean): string | null {
+  switch (rule.type) {
+    case 'pattern':
+      return pattern && !pattern.test(String(value)) ? `패턴 ${describeValidationRule(rule)}과 일치하지 않습니다` : null
+    case 'range': {
+      const number = toNumber(value)
+      if (number === null) return '숫자가 아닙니다'
+      if ((rule.min !== undefined && number < rule.min) || (rule.max !== undefined && number > rule.max)) {
+        return `허용 범위(${describeValidationRule(rule)})를 벗어났습니다`
+      }
+      return null
+    }
+    case 'allowed':
+      return (rule.values ?? []).includes(String(value).trim()) ? null : `허용된 값(${describeValidationRule(rule)})이 아닙니다`
+    case 'dateRange': {
+      const date = toDateText(value, date1904)
+      if (date === null) return '날짜가 아닙니다'
+      if ((rule.minDate && date < rule.minDate) || (rule.maxDate && date > rule.maxDate)) {
+        return `허용 기간(${describeValidationRule(rule)})을 벗어났습니다`
+      }
+      return null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * 시트 데이터를 열별 검증 규칙으로 검사합니다
+ * 규칙은 열 매핑으로 이름을 바꾸기 전의 키를 기준으로 지정합니다
+ * @param table - 헤더 옵션과 열 매핑을 적용한 시트 데이터
+ * @param rules - 열 키별 검증 규칙
+ * @param date1904 - 1904 날짜 체계 사용 여부 (날짜 일련번호 해석)
+ * @returns 행 순서대로 정렬한 위반 목록
+ */
+export function validateSheetTable(
+  table: SheetTable,
+  rules: Record<string, ColumnValidationRule[]> | undefined,
+  date1904 = false
+): ValidationIssue[] {
+  if (!rules) return []
+
+  const found: Array<{ issue: ValidationIssue; columnIndex: number }> = []
+
+  table.sourceKeys.forEach((key, j) => {
+    // 수식, 하이퍼링크, 메모 보조 열은 검사하지 않습니다
+    if (table.companionKinds[j] !== null) return
+    const column = table.headers[j]
+
+    for (const rule of rules[key] ?? []) {
+      const pattern = rule.type === 'pattern' && rule.pattern && isValidPattern(rule.pattern) ? new RegExp(rule.pattern) : null
+      const firstRows = new Map<string, number>()
+
+      table.rows.forEach((row, i) => {
+        const value = row[j]
+        const rowNumber = table.rowNumbers[i]
+        let message: string | null = null
+
+        if (isBlank(value)) {
+          if (rule.type === 'required') message = '필수 값이 비어 있습니다'
+        } else if (rule.type === 'unique') {
+          const text = String(value).trim()
+          const firstRow = firstRows.get(text)
+          if (firstRow === undefined) {
+            firstRows.set(text, rowNumber)
+          } else {
+            message = `중복된 값입니다 (${firstRow}행과 같음)`
+          }
+        } else {
+          message = checkValue(value, rule, pattern, date1904)
+        }
+
+        if (message) {
+          found.push({ issue: { rule: rule.type, row: rowNumber, column, value: value ?? null, message }, columnIndex: j })
+        }
+      })
+    }
+  })
+
+  return found
+    .sort((a, b) => a.issue.row - b.issue.row || a.columnIndex - b.columnIndex)
+    .map(({ issue }) => issue)
+}
+
+/**
+ * 시트의 검증 보고서를 만듭니다 (규칙별 위반 건수와 전체 위반 목록)
+ * @returns JSON 문자열
+ */
+export function buildValidationReport(sheetName: string, issues: ValidationIssue[]): string {
+  const byRule: Partial<Record<ValidationRuleType, number>> = {}
+  for (const issue of issues) {
+    byRule[issue.rule] = (byRule[issue.rule] ?? 0) + 1
+  }
+  return JSON.stringify({ sheet: sheetName, violations: issues.length, byRule, issues }, null, 2)
+}
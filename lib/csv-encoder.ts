@@ -0,0 +1,45 @@
+import * as XLSX from 'xlsx'
+import cptable from 'codepage'
+import { convertSheetToCSV, type CSVDialect, type SheetExportOptions } from '@/lib/excel-converter'
+
+// 코드 페이지 테이블이 커서 Worker에서만 불러오도록 excel-converter와 분리합니다
+const CP949 = 949
+const UTF8_BOM = [0xef, 0xbb, 0xbf]
+
+/**
+ * CSV 문자열을 선택한 인코딩의 바이트로 변환합니다
+ * CP949로 표현할 수 없는 문자(이모지 등)는 "?"로 바꿉니다
+ * @param csv - CSV 문자열
+ * @param dialect - 인코딩과 BOM 설정
+ */
+export function encodeCSV(csv: string, dialect: CSVDialect): Uint8Array {
+  if (dialect.encoding === 'cp949') {
+    const table = cptable[CP949].enc
+    const encodable = Array.from(csv, char => (char in table ? char : '?')).join('')
+    return Uint8Array.from(cptable.utils.encode(CP949, encodable) as ArrayLike<number>)
+  }
+
+  const bytes = new TextEncoder().encode(csv)
+  if (!dialect.bom) return bytes
+
+  const withBom = new Uint8Array(UTF8_BOM.length + bytes.length)
+  withBom.set(UTF8_BOM)
+  withBom.set(bytes, UTF8_BOM.length)
+  return withBom
+}
+
+/**
+ * 시트를 CSV 파일 내용(인코딩된 바이트)으로 변환합니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 변환할 시트 이름
+ * @param options - 병합 셀 채우기 등 시트별 내보내기 옵션
+ * @param dialect - CSV 파일 형식
+ */
+export function convertSheetToCSVFile(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {},
+  dialect: CSVDialect
+): Uint8Array {
+  return encodeCSV(convertSheetToCSV(workbook, sheetName, options, dialect), dialect)
+}
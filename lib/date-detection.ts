@@ -0,0 +1,200 @@
+import * as XLSX from 'xlsx'
+
+/**
+ * 날짜/시간 값의 종류
+ * - date: 날짜 (2025-03-01)
+ * - datetime: 날짜와 시각 (2025-03-01T14:30:00)
+ * - time: 하루 중 시각 (14:30:00)
+ * - duration: 경과 시간 ([h]:mm 표시 형식, "36:30:00", "PT1H30M", "1시간 30분")
+ */
+export type TemporalType = 'date' | 'datetime' | 'time' | 'duration'
+
+export const TEMPORAL_TYPES: TemporalType[] = ['date', 'datetime', 'time', 'duration']
+
+/**
+ * 텍스트나 날짜 일련번호에서 읽은 날짜/시간 구성 요소
+ * 시각(time)과 경과 시간(duration)은 y, m, d가 0이며, 경과 시간의 H는 24 이상일 수 있습니다
+ */
+export interface TemporalParts {
+  type: TemporalType
+  y: number
+  m: number
+  d: number
+  H: number
+  M: number
+  S: number
+}
+
+/**
+ * 표시 형식 코드가 나타내는 날짜/시간 종류를 구합니다 (예: "yyyy-mm-dd" → date, "[h]:mm" → duration)
+ * @returns 날짜/시간 형식이 아니면 null
+ */
+export function getFormatTemporalType(format: string | undefined): TemporalType | null {
+  if (!format || !XLSX.SSF.is_date(format)) return null
+
+  // 양수 구역만 보고, 따옴표 문자열·이스케이프 문자·채움/간격 문자는 형식 기호가 아니므로 제외합니다
+  const section = format.replace(/"[^"]*"|\\.|_.|\*./g, '').split(';')[0]
+  if (/\[(h+|m+|s+)\]/i.test(section)) return 'duration'
+
+  const code = section.replace(/\[[^\]]*\]/g, '')
+  const hasTime = /[hs]|AM\/PM|A\/P|上午/i.test(code)
+  // m은 시/초와 함께 쓰이면 분, 아니면 월입니다
+  const hasDate = /[ydeg]|aaa/i.test(code.replace(/AM\/PM|A\/P/gi, '')) || (!hasTime && /m/i.test(code))
+
+  if (hasDate && hasTime) return 'datetime'
+  if (hasDate) return 'date'
+  if (hasTime) return 'time'
+  return null
+}
+
+function daysInMonth(y: number, m: number): number {
+  return new Date(Date.UTC(y, m, 0)).getUTCDate()
+}
+
+// 두 자리 연도는 Excel과 같이 00~29는 2000년대, 30~99는 1900년대로 봅니다
+function expandYear(year: string): number {
+  const value = Number(year)
+  if (year.length > 2) return value
+  return value < 30 ? 2000 + value : 1900 + value
+}
+
+// 날짜 부분 (시각이 이어질 수 있음)
+const DATE_PATTERNS: RegExp[] = [
+  /^(\d{4})-(\d{1,2})-(\d{1,2})/, // 2025-03-01
+  /^(\d{4})[./]\s?(\d{1,2})[./]\s?(\d{1,2})\.?/, // 2025.03.01, 2025. 3. 1., 2025/03/01
+  /^(\d{4}|\d{2})년\s*(\d{1,2})월\s*(\d{1,2})일(?:\s*\(?[월화수목금토일](?:요일)?\)?)?/, // 2025년 3월 1일 (토)
+  /^(\d{2})[./-](\d{2})[./-](\d{2})(?!\d)/, // 25/03/01, 25.03.01
+]
+
+// 시각 부분: 14:30, 14:30:15.5, 오후 2:30, 2:30 PM, 14시 30분
+const TIME_PATTERN = /^(?:(오전|오후)\s*)?(\d{1,2})(?::(\d{2})(?::(\d{2})(?:\.\d+)?)?|시(?:\s*(\d{1,2})분)?(?:\s*(\d{1,2})초)?)(?:\s*([AaPp])\.?[Mm]\.?)?$/
+
+// 시간대 (2025-03-01T14:30:00Z, +09:00)
+const TIMEZONE_PATTERN = /(?:Z|[+-]\d{2}:?\d{2})$/
+
+const ISO_DURATION_PATTERN = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i
+const KOREAN_DURATION_PATTERN = /^(?:(\d+)일\s*)?(?:(\d+)시간\s*)?(?:(\d+)분\s*)?(?:(\d+)초)?$/
+const ELAPSED_TIME_PATTERN = /^(\d+):(\d{2}):(\d{2})$/
+
+function parseTime(text: string): { H: number; M: number; S: number } | null {
+  const match = text.match(TIME_PATTERN)
+  if (!match) return null
+
+  const [, koreanMeridiem, hour, colonMinute, colonSecond, koreanMinute, koreanSecond, meridiem] = match
+  let H = Number(hour)
+  const M = Number(colonMinute ?? koreanMinute ?? 0)
+  const S = Number(colonSecond ?? koreanSecond ?? 0)
+  const pm = koreanMeridiem === '오후' || meridiem?.toLowerCase() === 'p'
+  const am = koreanMeridiem === '오전' || meridiem?.toLowerCase() === 'a'
+
+  if (pm || am) {
+    if (H < 1 || H > 12) return null
+    H = (H % 12) + (pm ? 12 : 0)
+  }
+  if (H > 23 || M > 59 || S > 59) return null
+  return { H, M, S }
+}
+
+function parseDuration(text: string): TemporalParts | null {
+  const toParts = (days: number, hours: number, minutes: number, seconds: number): TemporalParts => {
+    const total = Math.round(((days * 24 + hours) * 60 + minutes) * 60 + seconds)
+    return { type: 'duration', y: 0, m: 0, d: 0, H: Math.floor(total / 3600), M: Math.floor(total / 60) % 60, S: total % 60 }
+  }
+
+  const iso = text.match(ISO_DURATION_PATTERN)
+  if (iso && text.length > 1 && !/T$/i.test(text)) {
+    const [days, hours, minutes, seconds] = iso.slice(1).map(part => Number(part ?? 0))
+    return toParts(days, hours, minutes, seconds)
+  }
+
+  const korean = text.match(KOREAN_DURATION_PATTERN)
+  if (korean && text !== '') {
+    const [days, hours, minutes, seconds] = korean.slice(1).map(part => Number(part ?? 0))
+    return toParts(days, hours, minutes, seconds)
+  }
+
+  // 24시간 이상인 h:mm:ss는 시각이 아니라 경과 시간입니다
+  const elapsed = text.match(ELAPSED_TIME_PATTERN)
+  if (elapsed && Number(elapsed[1]) > 23 && Number(elapsed[2]) < 60 && Number(elapsed[3]) < 60) {
+    return toParts(0, Number(elapsed[1]), Number(elapsed[2]), Number(elapsed[3]))
+  }
+
+  return null
+}
+
+/**
+ * 날짜/시간 텍스트를 해석합니다
+ * ISO-8601(2025-03-01, 2025-03-01T14:30), 한국식 날짜(2025.03.01, 2025년 3월 1일, 25/03/01),
+ * 시각(14:30, 오후 2:30), 경과 시간(36:30:00, PT1H30M, 1시간 30분)을 지원합니다
+ * "1", "Q2 2024"처럼 숫자나 연도가 들어 있을 뿐인 텍스트는 날짜로 보지 않습니다
+ * @returns 날짜/시간이 아니면 null
+ */
+export function parseTemporalText(text: string): TemporalParts | null {
+  const trimmed = text.trim()
+  if (trimmed === '') return null
+
+  for (const pattern of DATE_PATTERNS) {
+    const match = trimmed.match(pattern)
+    if (!match) continue
+
+    const y = expandYear(match[1])
+    const m = Number(match[2])
+    const d = Number(match[3])
+    if (m < 1 || m > 12 || d < 1 || d > daysInMonth(y, m)) return null
+
+    const rest = trimmed.slice(match[0].length).replace(TIMEZONE_PATTERN, '').replace(/^[T\s]+/, '')
+    if (rest === '') return { type: 'date', y, m, d, H: 0, M: 0, S: 0 }
+
+    const time = parseTime(rest)
+    return time ? { type: 'datetime', y, m, d, ...time } : null
+  }
+
+  const time = parseTime(trimmed)
+  if (time) return { type: 'time', y: 0, m: 0, d: 0, ...time }
+
+  return parseDuration(trimmed)
+}
+
+/**
+ * Excel 날짜 일련번호를 지정한 종류의 날짜/시간 구성 요소로 바꿉니다
+ * 경과 시간은 일련번호를 일 수로 보고 총 시간으로 환산합니다 (1.5 → 36:00:00)
+ * @returns 변환할 수 없으면 null
+ */
+export function serialToTemporalParts(serial: number, type: TemporalType, date1904 = false): TemporalParts | null {
+  if (!Number.isFinite(serial)) return null
+
+  if (type === 'duration') {
+    const total = Math.round(Math.abs(serial) * 86400)
+    return { type, y: 0, m: 0, d: 0, H: Math.floor(total / 3600), M: Math.floor(total / 60) % 60, S: total % 60 }
+  }
+
+  const parsed = XLSX.SSF.parse_date_code(serial, { date1904 })
+  if (!parsed) return null
+  return { type, y: parsed.y, m: parsed.m, d: parsed.d, H: parsed.H, M: parsed.M, S: parsed.S }
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0')
+}
+
+/**
+ * 날짜/시간 구성 요소를 종류에 맞는 ISO-8601 텍스트로 나타냅니다
+ * - date: 2025-03-01, datetime: 2025-03-01T14:30:00, time: 14:30:00, duration: PT36H30M
+ */
+export function formatTemporalParts(parts: Omit<TemporalParts, 'type'>, type: TemporalType): string {
+  const date = `${pad(parts.y, 4)}-${pad(parts.m)}-${pad(parts.d)}`
+  const time = `${pad(parts.H)}:${pad(parts.M)}:${pad(parts.S)}`
+
+  switch (type) {
+    case 'date':
+      return date
+    case 'datetime':
+      return `${date}T${time}`
+    case 'time':
+      return time
+    case 'duration': {
+      const duration = [parts.H && `${parts.H}H`, parts.M && `${parts.M}M`, parts.S && `${parts.S}S`].filter(Boolean).join('')
+      return `PT${duration || '0S'}`
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import type * as XLSX from 'xlsx'
+import type { CSVDialect } from '@/lib/excel-converter'
+import { buildWorkbookFromData, parseCSVValue } from '@/lib/xlsx-builder'
+
+/**
+ * 구분자로 나눈 텍스트 파일(CSV, TSV)의 구분자
+ */
+export type TextDelimiter = CSVDialect['delimiter']
+
+/**
+ * 텍스트 파일 인코딩
+ * - utf-8-bom: 파일 앞에 BOM(EF BB BF)이 있는 UTF-8 (한글 Windows Excel에서 저장한 CSV 등)
+ * - cp949: 한글 Windows 기본 인코딩 (EUC-KR 확장)
+ */
+export type TextEncoding = 'utf-8' | 'utf-8-bom' | 'cp949'
+
+// 자동 감지할 때 비교하는 순서 (점수가 같으면 앞의 구분자)
+export const TEXT_DELIMITERS: TextDelimiter[] = [',', '\t', ';', '|']
+
+// 구분자 텍스트로 읽는 확장자 (그 밖의 파일은 SheetJS가 형식을 판별)
+export const DELIMITED_TEXT_EXTENSIONS = ['.csv', '.tsv', '.txt']
+
+/**
+ * Worker에서 워크북으로 읽을 텍스트 (인코딩은 메인 스레드에서 미리 해석)
+ */
+export interface DelimitedText {
+  text: string
+  delimiter: TextDelimiter
+  sheetName: string // 만들 시트 이름 (보통 확장자를 뺀 파일 이름)
+}
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf]
+
+// 구분자를 판별할 때 살펴보는 줄 수
+const DETECTION_LINES = 20
+
+/**
+ * 파일 이름으로 구분자 텍스트 파일인지 확인합니다
+ */
+export function isDelimitedTextFile(fileName: string): boolean {
+  const extension = '.' + fileName.split('.').pop()?.toLowerCase()
+  return DELIMITED_TEXT_EXTENSIONS.includes(extension)
+}
+
+/**
+ * 파일 내용으로 인코딩을 판별합니다
+ * BOM이 있으면 UTF-8 BOM, UTF-8로 읽을 수 없는 바이트가 있으면 CP949로 봅니다
+ */
+export function detectTextEncoding(bytes: Uint8Array): TextEncoding {
+  if (UTF8_BOM.every((byte, index) => bytes[index] === byte)) return 'utf-8-bom'
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    return 'utf-8'
+  } catch {
+    return 'cp949'
+  }
+}
+
+/**
+ * 파일 내용을 지정한 인코딩의 텍스트로 읽습니다 (BOM은 제거)
+ * 읽을 수 없는 바이트는 U+FFFD(�)로 바뀝니다
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+  // WHATWG 인코딩 표준의 euc-kr은 CP949 확장 문자까지 포함합니다
+  return new TextDecoder(encoding === 'cp949' ? 'euc-kr' : 'utf-8').decode(bytes)
+}
+
+/**
+ * 따옴표 밖에 있는 구분자 수를 셉니다
+ */
+function countDelimiters(line: string, delimiter: TextDelimiter): number {
+  let count = 0
+  let quoted = false
+  for (const char of line) {
+    if (char === '"') quoted = !quoted
+    else if (char === delimiter && !quoted) count++
+  }
+  return count
+}
+
+/**
+ * 텍스트의 구분자를 판별합니다
+ * 앞부분 줄마다 구분자 수가 첫 줄(헤더)과 같은 줄이 가장 많은 구분자를 고릅니다
+ * @param fileName - 구분자가 보이지 않을 때 확장자로 판단 (.tsv는 탭)
+ */
+export function detectDelimiter(text: string, fileName = ''): TextDelimiter {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, DETECTION_LINES)
+  let best: { delimiter: TextDelimiter; score: number } | null = null
+
+  for (const delimiter of TEXT_DELIMITERS) {
+    const counts = lines.map(line => countDelimiters(line, delimiter))
+    if (counts.length === 0 || counts[0] === 0) continue
+    const score = counts.filter(count => count === counts[0]).length
+    if (!best || score > best.score) best = { delimiter, score }
+  }
+
+  if (best) return best.delimiter
+  return fileName.toLowerCase().endsWith('.tsv') ? '\t' : ','
+}
+
+/**
+ * 구분자 텍스트를 행 배열로 나눕니다 (모든 값은 텍스트)
+ * 큰따옴표로 감싼 값 안의 구분자와 줄바꿈은 값으로 보고, ""는 " 하나로 읽습니다
+ * SheetJS의 형식 자동 판별을 거치지 않으므로 "<b>x</b>"처럼 <로 시작하는 텍스트도 HTML로 읽히지 않습니다
+ */
+export function parseDelimitedRows(text: string, delimiter: TextDelimiter): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char !== '"') {
+        field += char
+      } else if (text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else {
+        quoted = false
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  // 마지막 줄에 줄바꿈이 없어도 행으로 추가합니다
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * 확인 화면에 보여줄 앞부분 행을 구합니다 (값은 텍스트 그대로)
+ * @param maxRows - 반환할 최대 행 수 (헤더 포함)
+ */
+export function getDelimitedTextPreview(text: string, delimiter: TextDelimiter, maxRows: number): string[][] {
+  // 큰 파일도 바로 보여줄 수 있도록 앞부분 줄만 나눕니다 (여러 줄 셀이 있으면 조금 더 적게 보일 수 있음)
+  const head = text.split(/\r?\n/, maxRows * 2).join('\n')
+  return parseDelimitedRows(head, delimiter).slice(0, maxRows)
+}
+
+/**
+ * 구분자 텍스트를 시트 하나짜리 워크북으로 읽습니다
+ * 첫 행은 텍스트 그대로 두고, 나머지 값은 XLSX 만들기와 같은 규칙으로 숫자/불리언으로 바꿉니다
+ * ("00123" 같은 코드와 "2025-03-01" 같은 날짜는 텍스트로 남아 열 타입 감지에서 판별됩니다)
+ */
+export function readDelimitedText(source: DelimitedText): XLSX.WorkBook {
+  const [headerRow = [], ...dataRows] = parseDelimitedRows(source.text, source.delimiter)
+  return buildWorkbookFromData([{
+    name: source.sheetName,
+    headers: headerRow.map(String),
+    rows: dataRows.map(row => row.map(value => parseCSVValue(String(value)))),
+  }])
+}
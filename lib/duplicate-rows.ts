@@ -0,0 +1,121 @@
+import type { SheetTable } from '@/lib/excel-converter'
+
+/**
+ * 중복 행 처리 방식
+ * - keepAll: 모두 내보내기 (감지만)
+ * - keepFirst: 그룹마다 첫 번째 행만 내보내기
+ * - keepLast: 그룹마다 마지막 행만 내보내기
+ * - dropAll: 중복된 행은 모두 제외 (한 번만 나온 행만 내보내기)
+ */
+export type DuplicateMode = 'keepAll' | 'keepFirst' | 'keepLast' | 'dropAll'
+
+/**
+ * 기준 열의 값이 같은 행 묶음 (두 행 이상)
+ */
+export interface DuplicateGroup {
+  rowNumbers: number[] // 원본 시트 행 번호 (시트 순서)
+  values: Record<string, any> // 그룹의 기준 열 값 (열 키별)
+}
+
+function normalizeValue(value: any): any {
+  if (value === undefined || value === '') return null
+  if (value instanceof Date) return value.toISOString()
+  return value
+}
+
+/**
+ * 행의 기준 열 값을 비교용 키로 만듭니다
+ * 빈 셀은 모두 같게 보고, 숫자 1과 텍스트 "1"은 다르게 봅니다
+ */
+function getRowKey(row: any[] | undefined, columnIndexes: number[]): string {
+  const values = columnIndexes.map(j => normalizeValue(row?.[j]))
+  // 열 개수가 다른 행도 비교할 수 있도록 끝의 빈 값은 제외합니다
+  while (values.length > 0 && values[values.length - 1] === null) values.pop()
+  return JSON.stringify(values)
+}
+
+/**
+ * 행을 기준 열 값이 같은 것끼리 묶습니다 (기준 열이 모두 빈 행은 제외)
+ * @returns 두 행 이상인 묶음의 행 인덱스 목록 (첫 행 순서)
+ */
+function groupRowIndexes(rows: any[][], columnIndexes: number[]): number[][] {
+  const groups = new Map<string, number[]>()
+  rows.forEach((row, i) => {
+    const key = getRowKey(row, columnIndexes)
+    if (key === '[]') return
+    const group = groups.get(key)
+    if (group) {
+      group.push(i)
+    } else {
+      groups.set(key, [i])
+    }
+  })
+  return [...groups.values()].filter(group => group.length > 1)
+}
+
+/**
+ * 중복 판정에 사용할 열 인덱스를 구합니다
+ * 수식, 하이퍼링크, 메모 보조 열은 제외합니다
+ * @param keys - 기준 열 키 (열 매핑 적용 전 키, 비어 있으면 모든 열)
+ */
+function getKeyColumnIndexes(table: SheetTable, keys: string[] | undefined): number[] {
+  const indexes = table.companionKinds.flatMap((kind, j) => (kind === null ? [j] : []))
+  if (!keys || keys.length === 0) return indexes
+  const selected = new Set(keys)
+  return indexes.filter(j => selected.has(table.sourceKeys[j]))
+}
+
+/**
+ * 모든 열의 값이 같은 행 중 앞선 행과 중복되는 행 수를 셉니다 (시트 분석용)
+ * @param rows - 데이터 행 (헤더 제외, 완전히 빈 행은 세지 않음)
+ */
+export function countDuplicateRows(rows: any[][], columnCount: number): number {
+  const columnIndexes = Array.from({ length: columnCount }, (_, j) => j)
+  return groupRowIndexes(rows, columnIndexes).reduce((sum, group) => sum + group.length - 1, 0)
+}
+
+/**
+ * 기준 열의 값이 같은 행 묶음을 찾습니다
+ * @param table - 헤더 옵션을 적용한 시트 데이터
+ * @param keys - 기준 열 키 (열 매핑 적용 전 키, 비어 있으면 모든 열)
+ */
+export function findDuplicateGroups(table: SheetTable, keys?: string[]): DuplicateGroup[] {
+  const columnIndexes = getKeyColumnIndexes(table, keys)
+  if (columnIndexes.length === 0) return []
+
+  return groupRowIndexes(table.rows, columnIndexes).map(group => {
+    const values: Record<string, any> = {}
+    for (const j of columnIndexes) {
+      values[table.headers[j]] = normalizeValue(table.rows[group[0]][j])
+    }
+    return { rowNumbers: group.map(i => table.rowNumbers[i]), values }
+  })
+}
+
+/**
+ * 처리 방식에 따라 중복 행을 제외한 시트 데이터를 만듭니다
+ * @param table - 헤더 옵션을 적용한 시트 데이터
+ * @param keys - 기준 열 키 (열 매핑 적용 전 키, 비어 있으면 모든 열)
+ * @param mode - 중복 행 처리 방식 (keepAll이면 그대로 반환)
+ */
+export function removeDuplicateRows(table: SheetTable, keys: string[] | undefined, mode: DuplicateMode = 'keepAll'): SheetTable {
+  if (mode === 'keepAll') return table
+
+  const columnIndexes = getKeyColumnIndexes(table, keys)
+  if (columnIndexes.length === 0) return table
+
+  const dropped = new Set<number>()
+  for (const group of groupRowIndexes(table.rows, columnIndexes)) {
+    const kept = mode === 'keepFirst' ? group[0] : mode === 'keepLast' ? group[group.length - 1] : -1
+    for (const i of group) {
+      if (i !== kept) dropped.add(i)
+    }
+  }
+  if (dropped.size === 0) return table
+
+  return {
+    ...table,
+    rows: table.rows.filter((_, i) => !dropped.has(i)),
+    rowNumbers: table.rowNumbers.filter((_, i) => !dropped.has(i)),
+  }
+}
@@ -1,15 +1,40 @@
 import * as XLSX from 'xlsx'
 import JSZip from 'jszip'
+import { formatCellText, formatRawCellText } from '@/lib/number-format'
+import { validateSheetTable, type ColumnValidationRule, type ValidationIssue } from '@/lib/column-validation'
+import { profileColumns, type ColumnProfile } from '@/lib/column-profile'
+import { cleanSheetTable, cleanValue, getCleaningChanges, type CleaningChange, type CleaningStepType } from '@/lib/value-cleaning'
+import { reshapeSheetTable, type ReshapeOptions } from '@/lib/sheet-reshape'
+import { readDelimitedText, type DelimitedText } from '@/lib/delimited-text'
+import { countDuplicateRows, findDuplicateGroups, removeDuplicateRows, type DuplicateGroup, type DuplicateMode } from '@/lib/duplicate-rows'
+import {
+  formatTemporalParts,
+  getFormatTemporalType,
+  parseTemporalText,
+  serialToTemporalParts,
+  type TemporalParts,
+  type TemporalType,
+} from '@/lib/date-detection'
+
+export type ColumnType = 'number' | 'boolean' | TemporalType | 'text' | 'mixed' | 'empty'
+
+export type SheetVisibility = 'visible' | 'hidden' | 'veryHidden'
 
 export interface SheetInfo {
   name: string
+  visibility?: SheetVisibility // 시트 표시 상태 (veryHidden은 VBA로만 다시 표시할 수 있음)
   rowCount: number
   columnCount: number
-  previewData?: any[][] // 미리보기용 데이터 (최대 50행, 모든 열)
-  fullData?: any[][] // 전체 데이터 (모달용)
-  columnTypes?: string[] // 각 열의 데이터 타입
+  columnTypes?: ColumnType[] // 각 열의 데이터 타입 (첫 행은 헤더로 보고 제외)
   emptyCellsCount?: number // 빈 셀 개수
   nonEmptyRowsCount?: number // 데이터가 있는 행 개수
+  mergedRegionsCount?: number // 병합된 셀 영역 개수
+  formulaCellsCount?: number // 수식이 있는 셀 개수
+  missingCachedValues?: string[] // 계산 결과가 저장되지 않은 수식 셀 주소 (A1, 값으로 내보내면 빈 칸이 됨)
+  hyperlinkCellsCount?: number // 하이퍼링크가 있는 셀 개수
+  commentCellsCount?: number // 메모가 있는 셀 개수
+  duplicateRowsCount?: number // 모든 열의 값이 앞선 행과 같은 데이터 행 개수 (첫 행은 헤더로 보고 제외)
+  columnProfiles?: ColumnProfile[] // 열별 통계 (빈 값 비율, 고유 값 수, 최솟값/최댓값, 상위 값 등)
 }
 
 export interface ExcelData {
@@ -19,6 +44,125 @@ export interface ExcelData {
   workbook: XLSX.WorkBook
 }
 
+/**
+ * 워크북 객체 없이 분석 결과만 담은 정보 (워크북은 Web Worker에 있음)
+ */
+export type ExcelSummary = Omit<ExcelData, 'workbook'>
+
+/**
+ * 열 매핑 항목 (배열 순서가 내보낼 열 순서)
+ */
+export interface ColumnMapping {
+  source: string // 원래 열 키
+  target: string // 내보낼 열 이름 (비어 있으면 원래 키 사용)
+  include: boolean // 내보내기에 포함할지 여부
+}
+
+/**
+ * 수식 셀을 내보내는 방식
+ * - values: 저장된 계산 결과만 (기본값)
+ * - formulas: 수식 셀은 "=SUM(A1:A3)" 같은 수식 텍스트로
+ * - both: 계산 결과와 함께 수식이 있는 열마다 "열이름__formula" 열을 추가
+ */
+export type FormulaMode = 'values' | 'formulas' | 'both'
+
+/**
+ * 하이퍼링크와 메모를 내보내는 방식
+ * - none: 내보내지 않음 (기본값)
+ * - columns: 링크나 메모가 있는 열마다 "열이름__link", "열이름__comment" 열을 추가
+ * - objects: JSON 계열 형식에서 해당 열의 값을 { value, link, comment } 객체로 (그 밖의 형식은 columns와 같음)
+ */
+export type AnnotationMode = 'none' | 'columns' | 'objects'
+
+/**
+ * 셀 값 형식
+ * - raw: 원래 값 (0.125, 날짜 일련번호 45717 등)
+ * - formatted: Excel에 표시되는 텍스트 ("12.5%", "2025-03-01" 등)
+ */
+export type ValueMode = 'raw' | 'formatted'
+
+/**
+ * 시트별 내보내기 옵션
+ */
+export interface SheetExportOptions {
+  headerRow?: number // 헤더가 시작되는 행 번호 (1부터 시작, 위쪽 행은 무시)
+  headerRowCount?: number // 헤더로 사용할 행 수 (0이면 열 문자 A, B, ...를 키로 사용)
+  skipRows?: number // 헤더 아래에서 데이터 전에 건너뛸 행 수 (단위 행 등)
+  headerSeparator?: string // 다중 행 헤더를 하나의 키로 합칠 때 사용할 구분자
+  coerceTypes?: boolean // 열 타입에 맞게 값을 변환하여 JSON으로 내보내기
+  columnTypeOverrides?: Record<string, ColumnType> // 열 키별로 사용자가 지정한 타입 (추론 결과보다 우선)
+  fillMergedCells?: boolean // 병합된 영역의 모든 셀에 왼쪽 위 셀의 값을 채우기
+  range?: string // 내보낼 셀 범위 (A1 형식, 예: "B4:K250", 첫 행부터 헤더로 사용)
+  columnMapping?: ColumnMapping[] // 열 포함/제외, 이름 변경, 순서 (매핑에 없는 열은 끝에 그대로 추가)
+  formulaMode?: FormulaMode // 수식 셀을 내보내는 방식 (기본값 values)
+  valueMode?: ValueMode // 셀 값 형식 (지정하지 않으면 CSV는 formatted, 그 밖의 형식은 raw)
+  columnValueModes?: Record<string, ValueMode> // 열 키별 셀 값 형식 (시트 설정보다 우선)
+  annotationMode?: AnnotationMode // 하이퍼링크와 메모를 내보내는 방식 (기본값 none)
+  validationRules?: Record<string, ColumnValidationRule[]> // 열 키별 검증 규칙 (열 매핑 적용 전 키 기준)
+  duplicateKeys?: string[] // 중복 행 판정 기준 열 (열 매핑 적용 전 키, 지정하지 않으면 모든 열)
+  duplicateMode?: DuplicateMode // 중복 행 처리 방식 (기본값 keepAll)
+  cleaningSteps?: CleaningStepType[] // 내보내기 전에 셀 값에 순서대로 적용할 정리 단계
+  reshape?: ReshapeOptions // 열 매핑 뒤에 적용할 표 형태 변환 (세로로 펼치기/가로로 모으기)
+}
+
+/**
+ * 셀 값 대신 셀 속성(수식, 하이퍼링크, 메모)을 담은 보조 열의 종류
+ */
+export type AnnotationKind = 'link' | 'comment'
+export type CompanionKind = 'formula' | AnnotationKind
+
+// 보조 열 키는 원래 열 키에 종류별 접미사를 붙여 만듭니다
+export const COMPANION_COLUMN_SUFFIXES: Record<CompanionKind, string> = {
+  formula: '__formula',
+  link: '__link',
+  comment: '__comment',
+}
+
+/**
+ * 헤더 옵션이 적용된 시트 데이터
+ */
+export interface SheetTable {
+  headers: string[] // 각 열의 키
+  rows: any[][] // 헤더를 제외한 데이터 행
+  rowNumbers: number[] // 각 데이터 행의 원본 시트 행 번호 (1부터 시작)
+  columnIndexes: number[] // 각 열의 원본 시트 열 인덱스 (0부터 시작)
+  sourceKeys: string[] // 각 열의 열 매핑 적용 전 키 (타입 지정의 기준)
+  companionKinds: Array<CompanionKind | null> // 보조 열이면 그 종류, 셀 값을 담은 일반 열이면 null
+  numberFormats: Array<string | undefined> // 각 열의 숫자 셀에 가장 많이 쓰인 표시 형식 (날짜 일련번호 판별용)
+  headerRowNumber: number | null // 첫 번째 헤더 행의 원본 시트 행 번호 (헤더가 없으면 null)
+}
+
+/**
+ * 타입 변환에 실패한 셀 정보
+ */
+export interface CoercionIssue {
+  row: number // 원본 시트 행 번호
+  column: string // 열 키
+  value: any // 원래 값 (변환하지 않고 그대로 내보냄)
+  expectedType: ColumnType
+}
+
+export const DEFAULT_HEADER_SEPARATOR = '_'
+
+/**
+ * CSV 파일 형식 (구분자, 따옴표 규칙, 줄바꿈, 인코딩)
+ */
+export interface CSVDialect {
+  delimiter: ',' | '\t' | ';' | '|'
+  quote: 'minimal' | 'all' | 'nonnumeric' // 필요할 때만 / 모든 값 / 숫자가 아닌 값
+  lineEnding: '\n' | '\r\n'
+  encoding: 'utf-8' | 'cp949'
+  bom: boolean // UTF-8 BOM 추가 (한글 Windows Excel에서 글자가 깨지지 않음)
+}
+
+export const DEFAULT_CSV_DIALECT: CSVDialect = {
+  delimiter: ',',
+  quote: 'minimal',
+  lineEnding: '\n',
+  encoding: 'utf-8',
+  bom: false,
+}
+
 /**
  * 파일 크기를 읽기 쉬운 형식으로 변환합니다
  */
@@ -30,8 +174,143 @@ export function formatFileSize(bytes: number): string {
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i]
 }
 
+/**
+ * 시트 하나의 행/열 수, 열 타입, 빈 셀 수 등을 분석합니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 분석할 시트 이름
+ */
+export function analyzeSheet(workbook: XLSX.WorkBook, sheetName: string): SheetInfo {
+  const worksheet = workbook.Sheets[sheetName]
+  const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][]
+
+  const rowCount = jsonData.length
+  const columnCount = jsonData.reduce(
+    (max, row) => Math.max(max, Array.isArray(row) ? row.length : 0),
+    0
+  )
+
+  // 각 열의 데이터 타입 분석 (첫 행은 헤더로 보고 제외)
+  const usedRange = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']) : null
+  const numberFormats = usedRange
+    ? getColumnNumberFormats(
+        worksheet,
+        Array.from({ length: usedRange.e.r - usedRange.s.r }, (_, i) => usedRange.s.r + i + 2),
+        Array.from({ length: columnCount }, (_, j) => usedRange.s.c + j)
+      )
+    : []
+  const columnTypes = inferColumnTypes(jsonData.slice(1), columnCount, numberFormats)
+  const columnProfiles = profileColumns(jsonData[0] ?? [], jsonData.slice(1), columnTypes, isDate1904(workbook))
+  const duplicateRowsCount = countDuplicateRows(jsonData.slice(1), columnCount)
+
+  // 빈 셀 개수 계산
+  let emptyCellsCount = 0
+  for (const row of jsonData) {
+    for (const cell of row) {
+      if (cell === null || cell === undefined || cell === '') {
+        emptyCellsCount++
+      }
+    }
+  }
+
+  // 데이터가 있는 행 개수
+  const nonEmptyRowsCount = jsonData.filter(row => 
+    row.some(cell => cell !== null && cell !== undefined && cell !== '')
+  ).length
+
+  const mergedRegionsCount = worksheet['!merges']?.length ?? 0
+  const visibility = getSheetVisibility(workbook, sheetName)
+
+  // 수식 셀과 계산 결과가 저장되지 않은 수식 셀 (수식만 쓰고 계산하지 않은 라이브러리 생성 파일 등)
+  let formulaCellsCount = 0
+  const missingCachedValues: string[] = []
+  let hyperlinkCellsCount = 0
+  let commentCellsCount = 0
+  for (const address of Object.keys(worksheet)) {
+    if (address.startsWith('!')) continue
+    const cell: XLSX.CellObject = worksheet[address]
+    if (cell.l) hyperlinkCellsCount++
+    if (cell.c?.length) commentCellsCount++
+    if (!cell.f) continue
+    formulaCellsCount++
+    if (hasMissingCachedValue(cell)) missingCachedValues.push(address)
+  }
+
+  return {
+    name: sheetName,
+    visibility,
+    rowCount,
+    columnCount,
+    columnTypes,
+    emptyCellsCount,
+    nonEmptyRowsCount,
+    mergedRegionsCount,
+    formulaCellsCount,
+    missingCachedValues,
+    hyperlinkCellsCount,
+    commentCellsCount,
+    duplicateRowsCount,
+    columnProfiles,
+  }
+}
+
+const SHEET_VISIBILITIES: SheetVisibility[] = ['visible', 'hidden', 'veryHidden']
+
+/**
+ * 시트가 숨겨져 있는지 확인합니다
+ */
+export function getSheetVisibility(workbook: XLSX.WorkBook, sheetName: string): SheetVisibility {
+  const index = workbook.SheetNames.indexOf(sheetName)
+  const hidden = workbook.Workbook?.Sheets?.[index]?.Hidden ?? 0
+  return SHEET_VISIBILITIES[hidden] ?? 'visible'
+}
+
+function hasMissingCachedValue(cell: XLSX.CellObject): boolean {
+  return cell.t === 'z' || cell.v === undefined
+}
+
+/**
+ * 분석 진행 상황
+ */
+export interface AnalyzeProgress {
+  stage: 'parse' | 'sheet' // 워크북 파싱 중 / 시트 분석 중
+  current: number // 분석을 마친 시트 수
+  total: number // 전체 시트 수 (파싱 중에는 0)
+  sheetName?: string // 방금 분석을 마친 시트 이름
+}
+
+// SheetJS가 형식을 판별하여 바로 읽는 파일 (CSV/TSV는 인코딩과 구분자를 확인한 뒤 readDelimitedText로 읽음)
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.xlsm', '.xlsb', '.ods']
+
+/**
+ * 파일 내용을 워크북으로 읽고 모든 시트를 분석합니다
+ * @param data - 파일 내용 (xlsx, xls, xlsm, xlsb, ods 등) 또는 인코딩을 해석한 CSV/TSV 텍스트
+ * @param onProgress - 시트 하나를 분석할 때마다 호출됩니다
+ * @returns 시트 정보와 워크북 객체
+ */
+export function analyzeWorkbook(
+  data: ArrayBuffer | DelimitedText,
+  onProgress?: (progress: AnalyzeProgress) => void
+): { sheets: SheetInfo[]; workbook: XLSX.WorkBook } {
+  onProgress?.({ stage: 'parse', current: 0, total: 0 })
+  // 계산 결과 없이 수식만 있는 셀은 sheetStubs를 켜야 빈 셀(t: 'z')로 남습니다
+  // 표시 형식을 다시 적용할 수 있도록 cellNF로 셀의 형식 코드(z)도 읽습니다
+  const workbook = data instanceof ArrayBuffer
+    ? XLSX.read(new Uint8Array(data), { type: 'array', sheetStubs: true, cellNF: true })
+    : readDelimitedText(data)
+
+  const total = workbook.SheetNames.length
+  const sheets = workbook.SheetNames.map((sheetName, index) => {
+    const sheet = analyzeSheet(workbook, sheetName)
+    onProgress?.({ stage: 'sheet', current: index + 1, total, sheetName })
+    return sheet
+  })
+
+  return { sheets, workbook }
+}
+
 /**
  * Excel 파일을 읽고 분석합니다
+ * 화면을 멈추지 않으려면 ExcelWorkerClient.load를 사용하세요
  * @param file - 업로드된 Excel 파일
  * @returns 파일 정보와 워크북 객체
  */
@@ -41,83 +320,7 @@ export async function analyzeExcel(file: File): Promise<ExcelData> {
 
     reader.onload = (e) => {
       try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer)
-        const workbook = XLSX.read(data, { type: 'array' })
-
-        const sheets: SheetInfo[] = workbook.SheetNames.map((sheetName) => {
-          const worksheet = workbook.Sheets[sheetName]
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][]
-          
-          const rowCount = jsonData.length
-          const columnCount = rowCount > 0 
-            ? Math.max(...jsonData.map((row: any[]) => Array.isArray(row) ? row.length : 0))
-            : 0
-
-          // 미리보기 데이터 (최대 50행, 모든 열)
-          const previewRows = Math.min(50, rowCount)
-          const previewData: any[][] = []
-          
-          for (let i = 0; i < previewRows; i++) {
-            previewData.push(jsonData[i] ? [...jsonData[i]] : [])
-          }
-
-          // 전체 데이터 저장 (모달용)
-          const fullData = jsonData.map(row => [...row])
-
-          // 각 열의 데이터 타입 분석
-          const columnTypes: string[] = []
-          if (columnCount > 0) {
-            for (let j = 0; j < columnCount; j++) {
-              const columnValues = jsonData
-                .map(row => row[j])
-                .filter(val => val !== null && val !== undefined && val !== '')
-              
-              if (columnValues.length === 0) {
-                columnTypes.push('empty')
-              } else {
-                const types = columnValues.map(val => {
-                  if (typeof val === 'number') return 'number'
-                  if (typeof val === 'boolean') return 'boolean'
-                  if (val instanceof Date || !isNaN(Date.parse(val))) return 'date'
-                  return 'text'
-                })
-                
-                const uniqueTypes = [...new Set(types)]
-                if (uniqueTypes.length === 1) {
-                  columnTypes.push(uniqueTypes[0])
-                } else {
-                  columnTypes.push('mixed')
-                }
-              }
-            }
-          }
-
-          // 빈 셀 개수 계산
-          let emptyCellsCount = 0
-          for (const row of jsonData) {
-            for (const cell of row) {
-              if (cell === null || cell === undefined || cell === '') {
-                emptyCellsCount++
-              }
-            }
-          }
-
-          // 데이터가 있는 행 개수
-          const nonEmptyRowsCount = jsonData.filter(row => 
-            row.some(cell => cell !== null && cell !== undefined && cell !== '')
-          ).length
-
-          return {
-            name: sheetName,
-            rowCount,
-            columnCount,
-            previewData,
-            fullData,
-            columnTypes,
-            emptyCellsCount,
-            nonEmptyRowsCount,
-          }
-        })
+        const { sheets, workbook } = analyzeWorkbook(e.target?.result as ArrayBuffer)
 
         resolve({
           fileName: file.name,
@@ -138,36 +341,1111 @@ export async function analyzeExcel(file: File): Promise<ExcelData> {
   })
 }
 
+function isEmptyCell(value: any): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+/**
+ * 워크북이 1904 날짜 체계(예전 Mac용 Excel)를 사용하는지 확인합니다
+ */
+export function isDate1904(workbook: XLSX.WorkBook): boolean {
+  return !!workbook.Workbook?.WBProps?.date1904
+}
+
+/**
+ * 열에 적용할 셀 값 형식을 구합니다 (열별 설정 > 시트 설정 > 내보내기 형식별 기본값)
+ * @param key - 열 매핑 적용 전 열 키
+ * @param fallback - 내보내기 형식별 기본값
+ */
+export function getValueMode(options: SheetExportOptions, key: string, fallback: ValueMode): ValueMode {
+  return options.columnValueModes?.[key] ?? options.valueMode ?? fallback
+}
+
+/**
+ * 열마다 숫자 셀에 가장 많이 쓰인 표시 형식을 구합니다
+ * 날짜는 셀에 일련번호로 저장되므로 표시 형식을 보아야 숫자와 구별할 수 있습니다
+ * @param rowNumbers - 살펴볼 원본 시트 행 번호 (1부터 시작)
+ * @param columnIndexes - 살펴볼 원본 시트 열 인덱스 (0부터 시작)
+ * @returns 열별 표시 형식 (숫자 셀이 없으면 undefined)
+ */
+export function getColumnNumberFormats(
+  worksheet: XLSX.WorkSheet,
+  rowNumbers: number[],
+  columnIndexes: number[]
+): Array<string | undefined> {
+  return columnIndexes.map(c => {
+    const counts = new Map<string, number>()
+    for (const rowNumber of rowNumbers) {
+      const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r: rowNumber - 1, c })]
+      if (cell?.t !== 'n') continue
+      const format = String(cell.z ?? 'General')
+      counts.set(format, (counts.get(format) ?? 0) + 1)
+    }
+
+    let mostUsed: string | undefined
+    for (const [format, count] of counts) {
+      if (mostUsed === undefined || count > counts.get(mostUsed)!) mostUsed = format
+    }
+    return mostUsed
+  })
+}
+
+/**
+ * 각 열의 값을 보고 데이터 타입을 추론합니다
+ * 숫자는 열의 표시 형식이 날짜/시간 형식이면 날짜 일련번호로 보고,
+ * 텍스트는 ISO-8601과 한국식 날짜(2025.03.01, 2025년 3월 1일, 25/03/01), 시각, 경과 시간 형식만 날짜/시간으로 봅니다
+ * @param rows - 데이터 행 (헤더 제외)
+ * @param columnCount - 열 개수
+ * @param numberFormats - 열별 숫자 셀 표시 형식 (getColumnNumberFormats)
+ * @returns 열별 타입 (값이 하나도 없으면 'empty', 여러 타입이 섞이면 'mixed', 날짜와 날짜/시간이 섞이면 'datetime')
+ */
+export function inferColumnTypes(
+  rows: any[][],
+  columnCount: number,
+  numberFormats: Array<string | undefined> = []
+): ColumnType[] {
+  const columnTypes: ColumnType[] = []
+
+  for (let j = 0; j < columnCount; j++) {
+    const columnValues = rows
+      .map(row => row?.[j])
+      .filter(val => !isEmptyCell(val))
+
+    if (columnValues.length === 0) {
+      columnTypes.push('empty')
+      continue
+    }
+
+    const numberType: ColumnType = getFormatTemporalType(numberFormats[j]) ?? 'number'
+    const types = columnValues.map((val): ColumnType => {
+      if (typeof val === 'number') return numberType
+      if (typeof val === 'boolean') return 'boolean'
+      if (val instanceof Date) {
+        return val.getHours() || val.getMinutes() || val.getSeconds() ? 'datetime' : 'date'
+      }
+      return parseTemporalText(String(val))?.type ?? 'text'
+    })
+
+    const uniqueTypes = new Set(types)
+    // 날짜만 있는 값과 시각이 있는 값이 섞인 열은 날짜/시간 열로 봅니다
+    if (uniqueTypes.size === 2 && uniqueTypes.has('date') && uniqueTypes.has('datetime')) {
+      uniqueTypes.delete('date')
+    }
+    columnTypes.push(uniqueTypes.size === 1 ? [...uniqueTypes][0] : 'mixed')
+  }
+
+  return columnTypes
+}
+
+/**
+ * 여러 행으로 된 헤더를 열별 키로 합칩니다
+ * - 상위 헤더 행의 빈 칸은 같은 그룹의 왼쪽 값을 이어받습니다 (예: "2025" 아래 Q1~Q4)
+ *   이어받는 범위는 마지막 헤더 행에 값이 있는 열까지이며, 그 오른쪽은 병합된 영역 안에서만 이어받습니다
+ * - 빈 헤더는 __EMPTY, 중복된 헤더는 _1, _2 접미사를 붙입니다 (SheetJS와 동일)
+ * @param merges - 헤더 첫 행과 첫 열 기준 위치로 바꾼 병합 영역
+ */
+function flattenHeaderRows(
+  headerRows: any[][],
+  columnCount: number,
+  separator: string,
+  merges: XLSX.Range[] = []
+): string[] {
+  const toText = (cell: any) => (isEmptyCell(cell) ? '' : String(cell).trim())
+  const lowerRow = headerRows[headerRows.length - 1] ?? []
+  let lastLowerColumn = -1
+  for (let j = 0; j < columnCount; j++) {
+    if (toText(lowerRow[j])) lastLowerColumn = j
+  }
+  const inSameMerge = (r: number, c1: number, c2: number) =>
+    merges.some(m => m.s.r <= r && r <= m.e.r && m.s.c <= c1 && c1 <= m.e.c && m.s.c <= c2 && c2 <= m.e.c)
+
+  const groupStarts: boolean[] = new Array(columnCount).fill(false)
+  const levels: string[][] = headerRows.map((row, rowIndex) => {
+    const isLastRow = rowIndex === headerRows.length - 1
+    const values: string[] = []
+    let carry = ''
+    let carryColumn = -1
+
+    for (let j = 0; j < columnCount; j++) {
+      const value = toText(row?.[j])
+
+      if (groupStarts[j]) carry = ''
+      if (value) {
+        carry = value
+        carryColumn = j
+        groupStarts[j] = true
+      }
+      const carried = carry && (j <= lastLowerColumn || inSameMerge(rowIndex, carryColumn, j)) ? carry : ''
+      values.push(value || (isLastRow ? '' : carried))
+    }
+
+    return values
+  })
+
+  const usedKeys = new Map<string, number>()
+  const headers: string[] = []
+
+  for (let j = 0; j < columnCount; j++) {
+    const parts: string[] = []
+    for (const level of levels) {
+      const part = level[j]
+      if (part && parts[parts.length - 1] !== part) parts.push(part)
+    }
+
+    const baseKey = parts.length > 0 ? parts.join(separator) : '__EMPTY'
+    const count = usedKeys.get(baseKey) ?? 0
+    usedKeys.set(baseKey, count + 1)
+    headers.push(count === 0 ? baseKey : `${baseKey}_${count}`)
+  }
+
+  return headers
+}
+
+/**
+ * 병합된 영역의 모든 셀에 왼쪽 위 셀의 값을 채운 워크시트 사본을 만듭니다
+ * 원본 워크시트는 변경하지 않습니다
+ */
+export function fillMergedCells(worksheet: XLSX.WorkSheet): XLSX.WorkSheet {
+  const merges = worksheet['!merges']
+  if (!merges || merges.length === 0) return worksheet
+
+  const filled: XLSX.WorkSheet = { ...worksheet }
+
+  for (const merge of merges) {
+    const origin: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell(merge.s)]
+    if (!origin) continue
+
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (r === merge.s.r && c === merge.s.c) continue
+        // 수식은 복사하지 않고 값과 표시 형식만 채웁니다
+        filled[XLSX.utils.encode_cell({ r, c })] = { t: origin.t, v: origin.v, w: origin.w, z: origin.z }
+      }
+    }
+  }
+
+  return filled
+}
+
+/**
+ * 병합된 셀 주소별로 병합 영역 정보를 조회할 수 있는 맵을 만듭니다
+ * @returns 셀 주소(A1) → { range: 병합 범위(A1:B3), isOrigin: 왼쪽 위 셀 여부 }
+ */
+export function getMergedCellMap(worksheet: XLSX.WorkSheet): Map<string, { range: string; isOrigin: boolean }> {
+  const map = new Map<string, { range: string; isOrigin: boolean }>()
+
+  for (const merge of worksheet['!merges'] ?? []) {
+    const range = XLSX.utils.encode_range(merge)
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        map.set(XLSX.utils.encode_cell({ r, c }), { range, isOrigin: r === merge.s.r && c === merge.s.c })
+      }
+    }
+  }
+
+  return map
+}
+
+/**
+ * 셀에 달린 하이퍼링크와 메모
+ */
+export interface CellAnnotation {
+  link?: string
+  comment?: string
+}
+
+/**
+ * 하이퍼링크나 메모가 있는 셀 주소별로 그 내용을 조회할 수 있는 맵을 만듭니다
+ */
+export function getCellAnnotationMap(worksheet: XLSX.WorkSheet): Map<string, CellAnnotation> {
+  const map = new Map<string, CellAnnotation>()
+
+  for (const address of Object.keys(worksheet)) {
+    if (address.startsWith('!')) continue
+    const cell: XLSX.CellObject = worksheet[address]
+    const link = getCompanionValue(cell, 'link')
+    const comment = getCompanionValue(cell, 'comment')
+    if (link !== undefined || comment !== undefined) {
+      map.set(address, { link, comment })
+    }
+  }
+
+  return map
+}
+
+const A1_RANGE_PATTERN = /^[A-Z]{1,3}[1-9]\d*(?::[A-Z]{1,3}[1-9]\d*)?$/
+
+/**
+ * A1 형식 셀 범위를 검사하고 분해합니다
+ * 끝 셀이 시작 셀보다 앞에 있어도(예: K250:B4) 같은 영역으로 취급합니다
+ * @example parseA1Range('b4:k250') // { s: { r: 3, c: 1 }, e: { r: 249, c: 10 } }
+ */
+export function parseA1Range(range: string): XLSX.Range {
+  const normalized = range.trim().toUpperCase()
+  if (!A1_RANGE_PATTERN.test(normalized)) {
+    throw new Error('잘못된 셀 범위입니다: ' + range)
+  }
+
+  const decoded = XLSX.utils.decode_range(normalized)
+  return {
+    s: { r: Math.min(decoded.s.r, decoded.e.r), c: Math.min(decoded.s.c, decoded.e.c) },
+    e: { r: Math.max(decoded.s.r, decoded.e.r), c: Math.max(decoded.s.c, decoded.e.c) },
+  }
+}
+
+/**
+ * 사용 범위를 지정한 셀 범위로 좁힌 워크시트 사본을 만듭니다
+ * 범위가 사용 범위와 겹치지 않으면 빈 워크시트가 됩니다
+ */
+export function restrictWorksheetToRange(worksheet: XLSX.WorkSheet, range: string): XLSX.WorkSheet {
+  const bounds = parseA1Range(range)
+  const restricted: XLSX.WorkSheet = { ...worksheet }
+  delete restricted['!ref']
+  if (!worksheet['!ref']) return restricted
+
+  const used = XLSX.utils.decode_range(worksheet['!ref'])
+  const s = { r: Math.max(bounds.s.r, used.s.r), c: Math.max(bounds.s.c, used.s.c) }
+  const e = { r: Math.min(bounds.e.r, used.e.r), c: Math.min(bounds.e.c, used.e.c) }
+  if (s.r <= e.r && s.c <= e.c) {
+    restricted['!ref'] = XLSX.utils.encode_range({ s, e })
+  }
+  return restricted
+}
+
+/**
+ * 내보내기 옵션(병합 셀 채우기, 셀 범위 등)을 적용한 워크시트를 구합니다
+ */
+export function getExportWorksheet(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): XLSX.WorkSheet {
+  const worksheet = workbook.Sheets[sheetName]
+  // 병합 영역이 범위 경계에 걸쳐 있어도 값이 채워지도록 범위보다 먼저 적용합니다
+  const filled = options.fillMergedCells ? fillMergedCells(worksheet) : worksheet
+  const withFormulas = options.formulaMode === 'formulas' ? replaceFormulasWithText(filled) : filled
+  return options.range?.trim() ? restrictWorksheetToRange(withFormulas, options.range) : withFormulas
+}
+
+function toFormulaText(formula: string): string {
+  return '=' + formula
+}
+
+/**
+ * 수식 셀의 값을 "=SUM(A1:A3)" 같은 수식 텍스트로 바꾼 워크시트 사본을 만듭니다
+ * 원본 워크시트는 변경하지 않습니다
+ */
+export function replaceFormulasWithText(worksheet: XLSX.WorkSheet): XLSX.WorkSheet {
+  const replaced: XLSX.WorkSheet = { ...worksheet }
+
+  for (const address of Object.keys(worksheet)) {
+    if (address.startsWith('!')) continue
+    const cell: XLSX.CellObject = worksheet[address]
+    if (cell.f) {
+      const text = toFormulaText(cell.f)
+      replaced[address] = { t: 's', v: text, w: text }
+    }
+  }
+
+  return replaced
+}
+
+function getCommentText(cell: XLSX.CellObject): string | undefined {
+  if (!cell.c || cell.c.length === 0) return undefined
+  return cell.c.map(comment => comment.t.trim()).join('\n')
+}
+
+/**
+ * 셀의 수식, 하이퍼링크 주소, 메모 텍스트를 구합니다
+ * @returns 해당 속성이 없으면 undefined
+ */
+function getCompanionValue(cell: XLSX.CellObject | undefined, kind: CompanionKind): string | undefined {
+  if (!cell) return undefined
+  switch (kind) {
+    case 'formula':
+      return cell.f ? toFormulaText(cell.f) : undefined
+    case 'link':
+      return cell.l?.Target
+    case 'comment':
+      return getCommentText(cell)
+  }
+}
+
+/**
+ * 수식, 하이퍼링크, 메모가 있는 열마다 바로 뒤에 그 내용을 담은 보조 열을 추가합니다
+ * (예: "금액__formula", "담당자__link", "담당자__comment")
+ */
+function addCompanionColumns(table: SheetTable, worksheet: XLSX.WorkSheet, kinds: CompanionKind[]): SheetTable {
+  const valueAt = (i: number, j: number, kind: CompanionKind): string | undefined =>
+    getCompanionValue(
+      worksheet[XLSX.utils.encode_cell({ r: table.rowNumbers[i] - 1, c: table.columnIndexes[j] })],
+      kind
+    )
+
+  const columns: Array<{ index: number; kind: CompanionKind | null }> = []
+  table.headers.forEach((_, j) => {
+    columns.push({ index: j, kind: null })
+    for (const kind of kinds) {
+      if (table.rowNumbers.some((_, i) => valueAt(i, j, kind) !== undefined)) {
+        columns.push({ index: j, kind })
+      }
+    }
+  })
+  if (columns.length === table.headers.length) return table
+
+  const withSuffix = (keys: string[]) =>
+    columns.map(({ index, kind }) => (kind ? keys[index] + COMPANION_COLUMN_SUFFIXES[kind] : keys[index]))
+
+  return {
+    ...table,
+    headers: withSuffix(table.headers),
+    rows: table.rows.map((row, i) =>
+      columns.map(({ index, kind }) => (kind ? valueAt(i, index, kind) : row[index]))
+    ),
+    columnIndexes: columns.map(({ index }) => table.columnIndexes[index]),
+    sourceKeys: withSuffix(table.sourceKeys),
+    companionKinds: columns.map(({ index, kind }) => kind ?? table.companionKinds[index]),
+    numberFormats: columns.map(({ index, kind }) => (kind ? undefined : table.numberFormats[index])),
+  }
+}
+
+/**
+ * 수식, 하이퍼링크, 메모가 있는 셀의 행별 마지막 열을 구합니다
+ * 계산 결과가 저장되지 않은 수식 셀처럼 값이 없는 셀도 보조 열을 만들 수 있도록 행과 열을 정할 때 함께 셉니다
+ * @returns 사용 범위 첫 행 기준 행 위치별 (사용 범위 첫 열 기준 마지막 열 위치 + 1)
+ */
+function getCompanionCellExtents(
+  worksheet: XLSX.WorkSheet,
+  kinds: CompanionKind[],
+  firstRow: number,
+  firstColumn: number
+): Map<number, number> {
+  const extents = new Map<number, number>()
+  if (kinds.length === 0) return extents
+
+  for (const address of Object.keys(worksheet)) {
+    if (address.startsWith('!')) continue
+    const cell: XLSX.CellObject = worksheet[address]
+    if (kinds.every(kind => getCompanionValue(cell, kind) === undefined)) continue
+    const { r, c } = XLSX.utils.decode_cell(address)
+    const i = r - firstRow
+    extents.set(i, Math.max(extents.get(i) ?? 0, c - firstColumn + 1))
+  }
+  return extents
+}
+
+/**
+ * 헤더 옵션만 적용하여 시트를 헤더와 데이터 행으로 나눕니다 (열 매핑 적용 전)
+ */
+function readSheetTable(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions
+): SheetTable {
+  const worksheet = getExportWorksheet(workbook, sheetName, options)
+  const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, blankrows: true }) as any[][]
+  // sheet_to_json은 사용 범위의 첫 행/열부터 반환하므로 원본 위치와의 차이를 보정합니다
+  const usedRange = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']) : null
+  const firstRow = usedRange?.s.r ?? 0
+  const firstColumn = usedRange?.s.c ?? 0
+
+  const headerStart = Math.max(0, (options.headerRow ?? firstRow + 1) - 1 - firstRow)
+  const headerRowCount = Math.max(0, options.headerRowCount ?? 1)
+  const skipRows = Math.max(0, options.skipRows ?? 0)
+  const dataStart = headerStart + headerRowCount + skipRows
+
+  const companionKinds: CompanionKind[] = []
+  if (options.formulaMode === 'both') companionKinds.push('formula')
+  if (options.annotationMode && options.annotationMode !== 'none') companionKinds.push('link', 'comment')
+  const companionExtents = getCompanionCellExtents(worksheet, companionKinds, firstRow, firstColumn)
+
+  const headerRows = jsonData.slice(headerStart, headerStart + headerRowCount)
+  const dataRows: any[][] = []
+  const rowNumbers: number[] = []
+  let columnCount = headerRows.reduce((max, row) => Math.max(max, Array.isArray(row) ? row.length : 0), 0)
+  for (let i = headerStart; i < headerStart + headerRowCount; i++) {
+    columnCount = Math.max(columnCount, companionExtents.get(i) ?? 0)
+  }
+
+  let lastRow = jsonData.length
+  companionExtents.forEach((_, i) => {
+    lastRow = Math.max(lastRow, i + 1)
+  })
+  for (let i = dataStart; i < lastRow; i++) {
+    const row = Array.isArray(jsonData[i]) ? jsonData[i] : []
+    if (row.some(cell => !isEmptyCell(cell)) || companionExtents.has(i)) {
+      dataRows.push(row)
+      rowNumbers.push(firstRow + i + 1)
+      columnCount = Math.max(columnCount, row.length, companionExtents.get(i) ?? 0)
+    }
+  }
+
+  const headers = headerRowCount > 0
+    ? flattenHeaderRows(
+        headerRows,
+        columnCount,
+        options.headerSeparator ?? DEFAULT_HEADER_SEPARATOR,
+        (worksheet['!merges'] ?? []).map(({ s, e }) => ({
+          s: { r: s.r - firstRow - headerStart, c: s.c - firstColumn },
+          e: { r: e.r - firstRow - headerStart, c: e.c - firstColumn },
+        }))
+      )
+    : Array.from({ length: columnCount }, (_, j) => XLSX.utils.encode_col(firstColumn + j))
+
+  // 표시 형식을 사용하는 열은 값을 Excel에 표시되는 텍스트로 바꿉니다
+  const valueModes = headers.map(key => getValueMode(options, key, 'raw'))
+  const date1904 = isDate1904(workbook)
+  const rows = valueModes.includes('formatted')
+    ? dataRows.map((row, i) =>
+        headers.map((_, j) => {
+          const cell: XLSX.CellObject | undefined =
+            worksheet[XLSX.utils.encode_cell({ r: rowNumbers[i] - 1, c: firstColumn + j })]
+          return valueModes[j] === 'formatted' && cell && !isEmptyCell(row[j]) ? formatCellText(cell, date1904) : row[j]
+        })
+      )
+    : dataRows
+
+  const table: SheetTable = {
+    headers,
+    rows,
+    rowNumbers,
+    columnIndexes: headers.map((_, j) => firstColumn + j),
+    sourceKeys: headers,
+    companionKinds: headers.map(() => null),
+    numberFormats: getColumnNumberFormats(worksheet, rowNumbers, headers.map((_, j) => firstColumn + j)),
+    headerRowNumber: headerRowCount > 0 ? firstRow + headerStart + 1 : null,
+  }
+
+  return companionKinds.length > 0 ? addCompanionColumns(table, worksheet, companionKinds) : table
+}
+
+/**
+ * 열 매핑에 따라 열을 제외하고, 이름을 바꾸고, 순서를 바꿉니다
+ * 매핑에 없는 열(새로 생긴 열 등)은 원래 순서대로 끝에 추가되고, 시트에 없는 열의 매핑은 무시됩니다
+ */
+export function applyColumnMapping(table: SheetTable, mapping: ColumnMapping[] | undefined): SheetTable {
+  if (!mapping || mapping.length === 0) return table
+
+  const indexByKey = new Map(table.headers.map((key, j) => [key, j]))
+  const listed = new Set<string>()
+  const columns: Array<{ index: number; key: string }> = []
+
+  for (const column of mapping) {
+    const index = indexByKey.get(column.source)
+    if (index === undefined || listed.has(column.source)) continue
+    listed.add(column.source)
+    if (column.include) {
+      columns.push({ index, key: column.target.trim() || column.source })
+    }
+  }
+
+  table.headers.forEach((key, index) => {
+    if (!listed.has(key)) columns.push({ index, key })
+  })
+
+  return {
+    ...table,
+    headers: columns.map(column => column.key),
+    rows: table.rows.map(row => columns.map(column => row[column.index])),
+    columnIndexes: columns.map(column => table.columnIndexes[column.index]),
+    sourceKeys: columns.map(column => table.sourceKeys[column.index]),
+    companionKinds: columns.map(column => table.companionKinds[column.index]),
+    numberFormats: columns.map(column => table.numberFormats[column.index]),
+  }
+}
+
+/**
+ * 헤더 옵션, 값 정리, 중복 행 처리, 열 매핑을 적용합니다 (형태 변환 전, 검증 규칙 검사 기준)
+ * 중복 행은 값을 정리한 뒤 열 매핑으로 제외한 열까지 포함하여 판정합니다
+ */
+function getMappedSheetTable(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions
+): SheetTable {
+  const cleaned = cleanSheetTable(readSheetTable(workbook, sheetName, options), options.cleaningSteps)
+  const table = removeDuplicateRows(cleaned, options.duplicateKeys, options.duplicateMode)
+  return applyColumnMapping(table, options.columnMapping)
+}
+
+/**
+ * 헤더 옵션, 값 정리, 중복 행 처리, 열 매핑, 형태 변환을 적용하여 시트를 헤더와 데이터 행으로 나눕니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 시트 이름
+ * @param options - 시트별 내보내기 옵션
+ * @returns 열 키와 데이터 행 (완전히 빈 행은 제외)
+ */
+export function getSheetTable(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): SheetTable {
+  return reshapeSheetTable(getMappedSheetTable(workbook, sheetName, options), options.reshape)
+}
+
+/**
+ * 열 매핑을 적용하기 전의 열 키 목록을 구합니다 (프리셋 일치 여부 확인용)
+ */
+export function getSheetHeaders(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): string[] {
+  return readSheetTable(workbook, sheetName, options).headers
+}
+
+// 텍스트 값이 지정한 날짜/시간 타입으로 변환될 수 있는 종류 (날짜 ↔ 날짜/시간, 시각 → 경과 시간)
+const COMPATIBLE_TEMPORAL_TYPES: Record<TemporalType, TemporalType[]> = {
+  date: ['date', 'datetime'],
+  datetime: ['date', 'datetime'],
+  time: ['time'],
+  duration: ['duration', 'time'],
+}
+
+/**
+ * 셀 값을 지정한 타입의 날짜/시간 구성 요소로 바꿉니다
+ * 숫자는 Excel 날짜 일련번호, 텍스트는 parseTemporalText로 해석하고,
+ * 날짜와 날짜/시간은 해석하지 못한 텍스트를 Date.parse로 한 번 더 시도합니다
+ * @returns 변환할 수 없으면 null
+ */
+function toTemporalParts(value: any, type: TemporalType, date1904: boolean): TemporalParts | null {
+  const fromDate = (date: Date): TemporalParts => ({
+    type,
+    y: date.getFullYear(),
+    m: date.getMonth() + 1,
+    d: date.getDate(),
+    H: date.getHours(),
+    M: date.getMinutes(),
+    S: date.getSeconds(),
+  })
+
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : fromDate(value)
+  if (typeof value === 'number') return serialToTemporalParts(value, type, date1904)
+  if (typeof value !== 'string') return null
+
+  const parsed = parseTemporalText(value)
+  if (parsed) return COMPATIBLE_TEMPORAL_TYPES[type].includes(parsed.type) ? parsed : null
+  if (type !== 'date' && type !== 'datetime') return null
+
+  const timestamp = Date.parse(value)
+  return isNaN(timestamp) ? null : fromDate(new Date(timestamp))
+}
+
+const DECIMAL_NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 't', 'o', '예', '네', '참']
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'f', 'x', '아니오', '아니요', '거짓']
+
+/**
+ * 값을 지정한 타입으로 변환합니다
+ * @returns 변환된 값, 변환할 수 없으면 undefined
+ */
+function coerceValue(value: any, type: ColumnType, date1904: boolean): any {
+  switch (type) {
+    case 'number': {
+      if (typeof value === 'number') return value
+      if (typeof value === 'boolean') return undefined
+      const normalized = String(value).replace(/[,\s]/g, '')
+      // Number()는 "Infinity", "0x10" 같은 텍스트도 숫자로 바꾸므로 10진수 표기만 변환합니다
+      if (!DECIMAL_NUMBER_PATTERN.test(normalized)) return undefined
+      const parsed = Number(normalized)
+      return Number.isFinite(parsed) ? parsed : undefined
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const normalized = String(value).trim().toLowerCase()
+      if (TRUE_VALUES.includes(normalized)) return true
+      if (FALSE_VALUES.includes(normalized)) return false
+      return undefined
+    }
+    case 'date':
+    case 'datetime':
+    case 'time':
+    case 'duration': {
+      // 날짜 YYYY-MM-DD, 날짜/시간 YYYY-MM-DDTHH:MM:SS, 시각 HH:MM:SS, 경과 시간 PT36H30M
+      const parts = toTemporalParts(value, type, date1904)
+      return parts ? formatTemporalParts(parts, type) : undefined
+    }
+    case 'text':
+      return String(value)
+    default:
+      return value
+  }
+}
+
+/**
+ * 열별로 내보낼 때 사용할 타입을 결정합니다 (사용자 지정 타입 > 추론 타입)
+ * 사용자 지정 타입은 열 매핑으로 이름을 바꾸기 전의 키를 기준으로 합니다
+ * 표시 형식을 사용하는 열은 표시된 텍스트를 그대로 유지하도록 텍스트로 취급합니다
+ */
+export function resolveColumnTypes(table: SheetTable, options: SheetExportOptions = {}): ColumnType[] {
+  const inferred = inferColumnTypes(table.rows, table.headers.length, table.numberFormats)
+  return table.sourceKeys.map((key, j) => {
+    const override = options.columnTypeOverrides?.[key]
+    if (override) return override
+    return getValueMode(options, key, 'raw') === 'formatted' ? 'text' : inferred[j]
+  })
+}
+
+/**
+ * 열 타입에 맞게 데이터 행의 값을 변환합니다
+ * 빈 셀은 null로, 변환에 실패한 셀은 원래 값을 유지하고 보고서에 기록합니다
+ */
+export function coerceSheetTable(
+  workbook: XLSX.WorkBook,
+  table: SheetTable,
+  options: SheetExportOptions = {}
+): { rows: any[][]; issues: CoercionIssue[] } {
+  const types = resolveColumnTypes(table, options)
+  const date1904 = isDate1904(workbook)
+  const issues: CoercionIssue[] = []
+
+  const rows = table.rows.map((row, i) =>
+    table.headers.map((key, j) => {
+      const value = row[j]
+      if (isEmptyCell(value) || (typeof value === 'string' && value.trim() === '')) return null
+
+      const coerced = coerceValue(value, types[j], date1904)
+      if (coerced === undefined) {
+        issues.push({ row: table.rowNumbers[i], column: key, value, expectedType: types[j] })
+        return value
+      }
+      return coerced
+    })
+  )
+
+  return { rows, issues }
+}
+
+const MAX_PREVIEW_CLEANING_CHANGES = 100
+
+/**
+ * 미리보기 대화상자와 내보내기 설정에 표시할 시트 데이터
+ */
+export interface SheetPreview extends SheetTable {
+  totalRows: number // 잘리기 전 데이터 행 수
+  inferredTypes: ColumnType[]
+  columnTypes: ColumnType[] // 사용자 지정 타입을 반영한 최종 타입
+  mergedCells: Map<string, { range: string; isOrigin: boolean }>
+  annotations: Map<string, CellAnnotation> // 하이퍼링크나 메모가 있는 셀 (셀 주소별)
+  issues: CoercionIssue[]
+  validationIssues: ValidationIssue[] // 검증 규칙 위반 (미리보기 행 수와 관계없이 시트 전체)
+  duplicateGroups: DuplicateGroup[] // 중복 판정 기준 열의 값이 같은 행 묶음 (중복 행 처리 전)
+  cleaningChanges: CleaningChange[] // 값 정리로 바뀐 셀 (최대 100건)
+  cleanedCellsCount: number // 값 정리로 바뀐 셀 수
+  nestedSample: Record<string, any> | null // 첫 행을 중첩 JSON으로 변환한 결과
+  sourceColumns: Array<{ key: string; inferredType: ColumnType }> // 열 매핑 적용 전 모든 열 (매핑 편집용)
+  mappedColumns: string[] // 열 매핑을 적용한 뒤, 형태 변환 전의 열 키 (형태 변환 편집용)
+}
+
+/**
+ * 내보내기와 같은 옵션으로 시트 데이터를 미리보기용으로 준비합니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 시트 이름
+ * @param options - 시트별 내보내기 옵션
+ * @param maxRows - 반환할 최대 데이터 행 수
+ */
+export function getSheetPreview(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {},
+  maxRows = Infinity
+): SheetPreview {
+  const rawTable = readSheetTable(workbook, sheetName, options)
+  const sourceTable = cleanSheetTable(rawTable, options.cleaningSteps)
+  const cleaningChanges = getCleaningChanges(rawTable, sourceTable)
+  const sourceTypes = inferColumnTypes(sourceTable.rows, sourceTable.headers.length, sourceTable.numberFormats)
+  const duplicateGroups = findDuplicateGroups(sourceTable, options.duplicateKeys)
+  const mappedTable = applyColumnMapping(
+    removeDuplicateRows(sourceTable, options.duplicateKeys, options.duplicateMode),
+    options.columnMapping
+  )
+  const validationIssues = validateSheetTable(mappedTable, options.validationRules, isDate1904(workbook))
+  const table = reshapeSheetTable(mappedTable, options.reshape)
+  const inferredTypes = inferColumnTypes(table.rows, table.headers.length, table.numberFormats)
+  const columnTypes = resolveColumnTypes(table, options)
+  const mergedCells = getMergedCellMap(workbook.Sheets[sheetName])
+  const annotations = getCellAnnotationMap(workbook.Sheets[sheetName])
+  const { rows, issues } = options.coerceTypes
+    ? coerceSheetTable(workbook, table, options)
+    : { rows: table.rows, issues: [] }
+
+  const firstRecord = rows.length > 0 ? rowToRecord(table.headers, rows[0], options) : null
+
+  return {
+    ...table,
+    rows: rows.slice(0, maxRows),
+    rowNumbers: table.rowNumbers.slice(0, maxRows),
+    totalRows: rows.length,
+    inferredTypes,
+    columnTypes,
+    mergedCells,
+    annotations,
+    issues,
+    validationIssues,
+    duplicateGroups,
+    cleaningChanges: cleaningChanges.slice(0, MAX_PREVIEW_CLEANING_CHANGES),
+    cleanedCellsCount: cleaningChanges.length,
+    nestedSample: firstRecord ? unflattenRecord(firstRecord) : null,
+    sourceColumns: sourceTable.headers.map((key, j) => ({ key, inferredType: sourceTypes[j] })),
+    mappedColumns: mappedTable.headers,
+  }
+}
+
+/**
+ * 시트의 타입 변환 실패 목록을 구합니다
+ * @returns 타입 변환이 꺼져 있으면 빈 배열
+ */
+export function getCoercionIssues(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): CoercionIssue[] {
+  if (!options.coerceTypes) return []
+  return coerceSheetTable(workbook, getSheetTable(workbook, sheetName, options), options).issues
+}
+
+/**
+ * 시트의 검증 규칙 위반 목록을 구합니다
+ * @returns 검증 규칙이 없으면 빈 배열
+ */
+export function getValidationIssues(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): ValidationIssue[] {
+  if (!options.validationRules) return []
+  return validateSheetTable(getMappedSheetTable(workbook, sheetName, options), options.validationRules, isDate1904(workbook))
+}
+
 /**
  * 시트를 CSV 형식으로 변환합니다
+ * 기본적으로 sheet_to_csv와 마찬가지로 셀의 표시 형식이 적용된 텍스트를 내보내며, 값 형식을 raw로 지정한 열은 원래 값을 내보냅니다
+ * 열 매핑이 없으면 시트(범위)를 그대로, 있으면 헤더 옵션과 열 매핑을 적용한 표를 내보냅니다
+ * 수식, 하이퍼링크, 메모 보조 열을 함께 내보내거나, 중복 행을 제외하거나, 값을 정리하는 경우에도 표를 내보냅니다
+ * 값 정리 단계는 셀 값 형식에 따라 구한 텍스트에 적용합니다
+ * 형태를 변환하면 셀 대신 변환한 표의 값을 내보냅니다 (셀 값 형식을 지정하지 않으면 원래 값)
  * @param workbook - XLSX 워크북 객체
  * @param sheetName - 변환할 시트 이름
+ * @param options - 병합 셀 채우기 등 시트별 내보내기 옵션
+ * @param dialect - 구분자, 따옴표 규칙, 줄바꿈 (인코딩과 BOM은 encodeCSV에서 적용)
  * @returns CSV 문자열
  */
-export function convertSheetToCSV(workbook: XLSX.WorkBook, sheetName: string): string {
-  const worksheet = workbook.Sheets[sheetName]
-  return XLSX.utils.sheet_to_csv(worksheet)
+export function convertSheetToCSV(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {},
+  dialect: CSVDialect = DEFAULT_CSV_DIALECT
+): string {
+  const worksheet = getExportWorksheet(workbook, sheetName, options)
+  if (!worksheet['!ref']) return ''
+
+  const lines: string[] = []
+  const date1904 = isDate1904(workbook)
+
+  const hasCompanionColumns =
+    options.formulaMode === 'both' || (!!options.annotationMode && options.annotationMode !== 'none')
+  const removesDuplicates = (options.duplicateMode ?? 'keepAll') !== 'keepAll'
+  const cleaningSteps = options.cleaningSteps ?? []
+
+  if (options.reshape) {
+    const table = getSheetTable(workbook, sheetName, options)
+    lines.push(table.headers.map(key => quoteCSVField(key, false, dialect)).join(dialect.delimiter))
+    for (const row of table.rows) {
+      const fields = table.headers.map((_, j) => {
+        const value = row[j]
+        const text = value === null || value === undefined ? '' : value instanceof Date ? value.toISOString() : String(value)
+        return quoteCSVField(text, typeof value === 'number', dialect)
+      })
+      lines.push(fields.join(dialect.delimiter))
+    }
+    return lines.join(dialect.lineEnding)
+  }
+
+  if (options.columnMapping?.length || hasCompanionColumns || removesDuplicates || cleaningSteps.length > 0) {
+    // 열 매핑이나 보조 열이 있거나 중복 행을 제외하거나 값을 정리하면 헤더 한 줄과 데이터 행만 표의 열 순서로 내보냅니다
+    const table = getSheetTable(workbook, sheetName, options)
+    const valueModes = table.sourceKeys.map(key => getValueMode(options, key, 'formatted'))
+    lines.push(table.headers.map(key => quoteCSVField(key, false, dialect)).join(dialect.delimiter))
+    table.rowNumbers.forEach((rowNumber, i) => {
+      const fields = table.columnIndexes.map((c, j) =>
+        table.companionKinds[j]
+          ? quoteCSVField(table.rows[i][j] ?? '', false, dialect)
+          : formatCSVCell(worksheet, rowNumber - 1, c, valueModes[j], date1904, dialect, cleaningSteps)
+      )
+      lines.push(fields.join(dialect.delimiter))
+    })
+    return lines.join(dialect.lineEnding)
+  }
+
+  // 열별 값 형식은 열 키로 지정되므로 헤더를 읽어 원본 열 인덱스별로 바꿉니다
+  const columnModes = new Map<number, ValueMode>()
+  if (options.columnValueModes && Object.keys(options.columnValueModes).length > 0) {
+    const table = readSheetTable(workbook, sheetName, options)
+    table.sourceKeys.forEach((key, j) => {
+      if (!table.companionKinds[j]) columnModes.set(table.columnIndexes[j], getValueMode(options, key, 'formatted'))
+    })
+  }
+  const sheetMode = options.valueMode ?? 'formatted'
+
+  const range = XLSX.utils.decode_range(worksheet['!ref'])
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const fields: string[] = []
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      fields.push(formatCSVCell(worksheet, r, c, columnModes.get(c) ?? sheetMode, date1904, dialect))
+    }
+    lines.push(fields.join(dialect.delimiter))
+  }
+
+  return lines.join(dialect.lineEnding)
+}
+
+function formatCSVCell(
+  worksheet: XLSX.WorkSheet,
+  r: number,
+  c: number,
+  valueMode: ValueMode,
+  date1904: boolean,
+  dialect: CSVDialect,
+  cleaningSteps: CleaningStepType[] = []
+): string {
+  const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r, c })]
+  if (!cell) return quoteCSVField('', false, dialect)
+  const text = valueMode === 'raw' ? formatRawCellText(cell) : formatCellText(cell, date1904)
+  if (cleaningSteps.length === 0) return quoteCSVField(text, cell.t === 'n', dialect)
+
+  const cleaned = cleanValue(text, cleaningSteps)
+  return quoteCSVField(cleaned === null ? '' : String(cleaned), cell.t === 'n' || typeof cleaned === 'number', dialect)
+}
+
+function quoteCSVField(text: string, isNumber: boolean, dialect: CSVDialect): string {
+  const needsQuotes =
+    dialect.quote === 'all' ||
+    (dialect.quote === 'nonnumeric' && !isNumber && text !== '') ||
+    text.includes(dialect.delimiter) ||
+    /["\r\n]/.test(text)
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * 데이터 행 하나를 열 키별 객체로 변환합니다
+ */
+function rowToRecord(headers: string[], row: any[], options: SheetExportOptions): Record<string, any> {
+  const record: Record<string, any> = {}
+  headers.forEach((key, j) => {
+    // sheet_to_json과 마찬가지로 값이 없는 셀은 키를 생략합니다
+    // 타입 변환을 켜면 빈 셀도 null로 명시합니다
+    if (options.coerceTypes || (row[j] !== null && row[j] !== undefined)) {
+      record[key] = row[j]
+    }
+  })
+  return record
+}
+
+/**
+ * 시트를 JSON으로 내보낼 객체 배열로 변환합니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 변환할 시트 이름
+ * @param options - 헤더 행 등 시트별 내보내기 옵션
+ * @returns 행별 객체 배열
+ */
+export function getSheetRecords(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): Record<string, any>[] {
+  const table = getSheetTable(workbook, sheetName, options)
+  const coerced = options.coerceTypes ? coerceSheetTable(workbook, table, options).rows : table.rows
+
+  const { headers, rows } = options.annotationMode === 'objects'
+    ? foldAnnotationColumns(table, coerced)
+    : { headers: table.headers, rows: coerced }
+  return rows.map(row => rowToRecord(headers, row, options))
+}
+
+/**
+ * 원래 열 인덱스별로 그 열의 하이퍼링크/메모 보조 열을 묶습니다
+ * 원래 열이 열 매핑에서 제외된 보조 열은 묶지 않고 일반 열로 남깁니다
+ */
+export function groupAnnotationColumns(table: SheetTable): Map<number, Array<{ kind: AnnotationKind; index: number }>> {
+  const groups = new Map<number, Array<{ kind: AnnotationKind; index: number }>>()
+
+  table.companionKinds.forEach((kind, j) => {
+    if (kind !== 'link' && kind !== 'comment') return
+    const parentKey = table.sourceKeys[j].slice(0, -COMPANION_COLUMN_SUFFIXES[kind].length)
+    const parent = table.sourceKeys.findIndex((key, k) => key === parentKey && table.companionKinds[k] === null)
+    if (parent === -1) return
+    groups.set(parent, [...(groups.get(parent) ?? []), { kind, index: j }])
+  })
+
+  return groups
+}
+
+/**
+ * 하이퍼링크/메모 보조 열을 원래 열에 합쳐 값을 { value, link, comment } 객체로 만듭니다
+ * 링크나 메모가 없는 행도 같은 모양의 객체가 되며 없는 속성은 null입니다
+ */
+function foldAnnotationColumns(table: SheetTable, rows: any[][]): { headers: string[]; rows: any[][] } {
+  const groups = groupAnnotationColumns(table)
+  if (groups.size === 0) return { headers: table.headers, rows }
+
+  const folded = new Set([...groups.values()].flatMap(companions => companions.map(companion => companion.index)))
+  const kept = table.headers.map((_, j) => j).filter(j => !folded.has(j))
+
+  return {
+    headers: kept.map(j => table.headers[j]),
+    rows: rows.map(row =>
+      kept.map(j => {
+        const companions = groups.get(j)
+        if (!companions) return row[j]
+        const annotated: Record<string, any> = { value: row[j] ?? null }
+        for (const { kind, index } of companions) {
+          annotated[kind] = row[index] ?? null
+        }
+        return annotated
+      })
+    ),
+  }
 }
 
 /**
  * 시트를 JSON 형식으로 변환합니다
  * @param workbook - XLSX 워크북 객체
  * @param sheetName - 변환할 시트 이름
+ * @param options - 헤더 행 등 시트별 내보내기 옵션
  * @returns JSON 문자열
  */
-export function convertSheetToJSON(workbook: XLSX.WorkBook, sheetName: string): string {
-  const worksheet = workbook.Sheets[sheetName]
-  const jsonData = XLSX.utils.sheet_to_json(worksheet)
-  return JSON.stringify(jsonData, null, 2)
+export function convertSheetToJSON(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): string {
+  return JSON.stringify(getSheetRecords(workbook, sheetName, options), null, 2)
+}
+
+/**
+ * 시트를 JSON Lines(NDJSON) 형식으로 변환합니다
+ * 한 줄에 행 하나씩 JSON 객체를 쓰므로 큰 시트도 줄 단위로 스트리밍할 수 있습니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 변환할 시트 이름
+ * @param options - 헤더 행 등 시트별 내보내기 옵션
+ * @returns 줄바꿈(\n)으로 구분된 JSON 문자열 (마지막 줄도 줄바꿈으로 끝남)
+ */
+export function convertSheetToNDJSON(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): string {
+  const records = getSheetRecords(workbook, sheetName, options)
+  return records.map(record => JSON.stringify(record) + '\n').join('')
+}
+
+// "address.city", "tags[0]", "items[1].name" 형태의 헤더 경로
+const HEADER_PATH_PATTERN = /^[^.[\]]+(?:\.[^.[\]]+|\[\d+\])*$/
+
+// 따라 내려가면 Object.prototype에 값을 쓰게 되는 경로 이름 (이 이름이 들어간 헤더는 평면 키로 둡니다)
+const UNSAFE_PATH_SEGMENTS = ['__proto__', 'constructor', 'prototype']
+
+/**
+ * 헤더를 중첩 경로로 분해합니다
+ * @example parseHeaderPath('items[1].name') // ['items', 1, 'name']
+ * @returns 경로 형태가 아니면 헤더 전체를 하나의 키로 반환
+ */
+export function parseHeaderPath(key: string): Array<string | number> {
+  if (!HEADER_PATH_PATTERN.test(key)) return [key]
+
+  const segments: Array<string | number> = []
+  for (const match of key.matchAll(/([^.[\]]+)|\[(\d+)\]/g)) {
+    segments.push(match[2] !== undefined ? Number(match[2]) : match[1])
+  }
+  return segments.some(segment => UNSAFE_PATH_SEGMENTS.includes(segment as string)) ? [key] : segments
+}
+
+function hasOwnValue(target: object, key: string | number): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key) && (target as any)[key] !== undefined
+}
+
+/**
+ * 객체의 자기 속성으로 값을 넣습니다 ("__proto__" 같은 키도 프로토타입을 바꾸지 않고 일반 키가 됨)
+ */
+function setOwnValue(target: object, key: string | number, value: any) {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+/**
+ * 경로를 따라 중첩 객체/배열에 값을 넣습니다
+ * @returns 이미 다른 값이 있는 경로와 충돌하면 false
+ */
+function setNestedValue(target: Record<string, any>, path: Array<string | number>, value: any): boolean {
+  let current: any = target
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const segment = path[i]
+    const nextIsIndex = typeof path[i + 1] === 'number'
+
+    if (!hasOwnValue(current, segment)) {
+      setOwnValue(current, segment, nextIsIndex ? [] : {})
+    } else if (
+      typeof current[segment] !== 'object' ||
+      current[segment] === null ||
+      Array.isArray(current[segment]) !== nextIsIndex
+    ) {
+      return false
+    }
+    current = current[segment]
+  }
+
+  const last = path[path.length - 1]
+  if (hasOwnValue(current, last)) return false
+  setOwnValue(current, last, value)
+  return true
+}
+
+/**
+ * 점(.)이나 대괄호([n])로 된 평면 키를 중첩 객체와 배열로 변환합니다
+ * 경로가 충돌하는 키(예: "a"와 "a.b")는 평면 키 그대로 둡니다
+ */
+export function unflattenRecord(record: Record<string, any>): Record<string, any> {
+  const nested: Record<string, any> = {}
+  const conflicts: Array<[string, any]> = []
+
+  for (const [key, value] of Object.entries(record)) {
+    if (!setNestedValue(nested, parseHeaderPath(key), value)) {
+      conflicts.push([key, value])
+    }
+  }
+
+  for (const [key, value] of conflicts) {
+    if (!hasOwnValue(nested, key)) setOwnValue(nested, key, value)
+  }
+
+  return nested
+}
+
+/**
+ * 시트를 중첩 JSON 형식으로 변환합니다
+ * "address.city", "tags[0]" 같은 헤더는 중첩 객체와 배열이 됩니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 변환할 시트 이름
+ * @param options - 헤더 행 등 시트별 내보내기 옵션
+ * @returns JSON 문자열
+ */
+export function convertSheetToNestedJSON(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): string {
+  const records = getSheetRecords(workbook, sheetName, options).map(unflattenRecord)
+  return JSON.stringify(records, null, 2)
 }
 
 /**
- * 텍스트를 Blob으로 변환하고 다운로드합니다 (폴더 구조 지원)
+ * 텍스트(또는 바이너리)를 Blob으로 변환하고 다운로드합니다 (폴더 구조 지원)
  * @param content - 다운로드할 내용
  * @param fileName - 파일명 (폴더 경로 포함 가능)
  * @param mimeType - MIME 타입
  */
-export function downloadFile(content: string, fileName: string, mimeType: string) {
+export function downloadFile(content: string | ArrayBuffer, fileName: string, mimeType: string) {
   const blob = new Blob([content], { type: mimeType })
   const url = URL.createObjectURL(blob)
   const link = document.createElement('a')
@@ -184,7 +1462,7 @@ export function downloadFile(content: string, fileName: string, mimeType: string
  * 이 함수는 JSZip 라이브러리를 사용합니다
  */
 export async function downloadFilesAsZip(
-  files: Array<{ name: string; content: string; mimeType: string }>,
+  files: Array<{ name: string; content: string | Uint8Array; mimeType: string }>,
   zipFileName: string
 ) {
   const zip = new JSZip()
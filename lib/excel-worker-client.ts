@@ -0,0 +1,137 @@
+/**
+ * Excel Web Worker 클라이언트
+ * Worker에 워크북을 불러오고, 워크북을 첫 번째 인자로 받는 변환 함수를 비동기로 호출합니다
+ */
+import type * as XLSX from 'xlsx'
+import type { AnalyzeProgress, ExcelSummary } from '@/lib/excel-converter'
+import type { DelimitedText } from '@/lib/delimited-text'
+import type { ExcelWorkerMethods, ExcelWorkerRequest, ExcelWorkerResponse } from '@/lib/excel.worker'
+
+// 워크북 인자를 제외한 나머지 인자
+type WorkerMethodArgs<K extends keyof ExcelWorkerMethods> =
+  ExcelWorkerMethods[K] extends (workbook: XLSX.WorkBook, ...args: infer A) => any ? A : never
+
+interface PendingRequest {
+  resolve: (value: any) => void
+  reject: (error: Error) => void
+  onProgress?: (progress: AnalyzeProgress) => void
+}
+
+/**
+ * 취소로 인해 중단된 작업인지 확인합니다
+ */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+export class ExcelWorkerClient {
+  private worker: Worker | null = null
+  private pending = new Map<number, PendingRequest>()
+  private nextId = 1
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./excel.worker.ts', import.meta.url))
+      this.worker.onmessage = (event: MessageEvent<ExcelWorkerResponse>) => this.handleMessage(event.data)
+      this.worker.onerror = (event) => {
+        this.rejectAll(new Error('Worker 실행 중 오류가 발생했습니다: ' + event.message))
+      }
+    }
+    return this.worker
+  }
+
+  private handleMessage(response: ExcelWorkerResponse) {
+    const request = this.pending.get(response.id)
+    if (!request) return
+
+    if (response.type === 'progress') {
+      request.onProgress?.(response.progress)
+      return
+    }
+
+    this.pending.delete(response.id)
+    if (response.type === 'result') {
+      request.resolve(response.value)
+    } else {
+      request.reject(new Error(response.message))
+    }
+  }
+
+  private send<T>(request: ExcelWorkerRequest, transfer: Transferable[] = [], onProgress?: (progress: AnalyzeProgress) => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject, onProgress })
+      this.getWorker().postMessage(request, transfer)
+    })
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach(request => request.reject(error))
+    this.pending.clear()
+  }
+
+  private async loadData(
+    file: File,
+    data: ArrayBuffer | DelimitedText,
+    transfer: Transferable[],
+    onProgress?: (progress: AnalyzeProgress) => void
+  ): Promise<ExcelSummary> {
+    try {
+      const sheets = await this.send<ExcelSummary['sheets']>(
+        { id: this.nextId++, type: 'load', data },
+        transfer,
+        onProgress
+      )
+      return { fileName: file.name, fileSize: file.size, sheets }
+    } catch (error) {
+      if (isCancelledError(error)) throw error
+      throw new Error('파일을 읽는 중 오류가 발생했습니다: ' + (error as Error).message)
+    }
+  }
+
+  /**
+   * 파일을 Worker에 불러오고 모든 시트를 분석합니다
+   * 이전에 불러온 워크북은 대체됩니다
+   * @param file - 업로드된 파일 (xlsx, xls, xlsm, xlsb, ods)
+   * @param onProgress - 시트 분석 진행 상황 콜백
+   */
+  async load(file: File, onProgress?: (progress: AnalyzeProgress) => void): Promise<ExcelSummary> {
+    const data = await file.arrayBuffer()
+    // 파일 내용은 복사하지 않고 Worker로 소유권을 넘깁니다
+    return this.loadData(file, data, [data], onProgress)
+  }
+
+  /**
+   * 인코딩과 구분자를 확인한 CSV/TSV 텍스트를 Worker에 불러오고 분석합니다
+   * 이전에 불러온 워크북은 대체됩니다
+   * @param file - 업로드된 텍스트 파일 (이름과 크기 표시용)
+   * @param source - 해석한 텍스트와 구분자
+   * @param onProgress - 시트 분석 진행 상황 콜백
+   */
+  loadText(file: File, source: DelimitedText, onProgress?: (progress: AnalyzeProgress) => void): Promise<ExcelSummary> {
+    return this.loadData(file, source, [], onProgress)
+  }
+
+  /**
+   * 불러온 워크북으로 Worker의 함수를 호출합니다
+   * @example client.call('convertSheetToJSON', sheetName, options)
+   */
+  call<K extends keyof ExcelWorkerMethods>(
+    method: K,
+    ...args: WorkerMethodArgs<K>
+  ): Promise<ReturnType<ExcelWorkerMethods[K]>> {
+    return this.send({ id: this.nextId++, type: 'call', method, args })
+  }
+
+  /**
+   * 진행 중인 모든 작업을 취소하고 Worker와 워크북을 해제합니다
+   * 취소된 작업은 AbortError로 거부되며, 이후 다시 load해야 합니다
+   */
+  cancel() {
+    this.worker?.terminate()
+    this.worker = null
+
+    const error = new Error('작업이 취소되었습니다')
+    error.name = 'AbortError'
+    this.rejectAll(error)
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Excel 처리 전용 Web Worker
+ * 워크북 파싱, 시트 분석, 변환을 메인 스레드 밖에서 실행하여 화면이 멈추지 않게 합니다
+ * 워크북은 이 Worker 안에만 보관되며, 메인 스레드에는 분석 결과만 전달됩니다
+ */
+import * as XLSX from 'xlsx'
+import {
+  analyzeWorkbook,
+  convertSheetToCSV,
+  convertSheetToJSON,
+  convertSheetToNDJSON,
+  convertSheetToNestedJSON,
+  getCoercionIssues,
+  getSheetHeaders,
+  getSheetPreview,
+  getSheetRecords,
+  getValidationIssues,
+  type AnalyzeProgress,
+} from '@/lib/excel-converter'
+import { convertSheetToCSVFile } from '@/lib/csv-encoder'
+import type { DelimitedText } from '@/lib/delimited-text'
+import { convertSheetToMarkdown } from '@/lib/markdown-table-generator'
+import { generateJSONSchema, generateTypeScript } from '@/lib/schema-generator'
+import { getDiffTable } from '@/lib/sheet-diff'
+import { convertSheetToSQL, describeSQLTable } from '@/lib/sql-generator'
+
+// 메인 스레드에서 호출할 수 있는 함수 목록 (첫 번째 인자로 워크북을 받습니다)
+const methods = {
+  getSheetPreview,
+  getSheetHeaders,
+  getSheetRecords,
+  convertSheetToCSV,
+  convertSheetToCSVFile,
+  convertSheetToJSON,
+  convertSheetToNDJSON,
+  convertSheetToNestedJSON,
+  getCoercionIssues,
+  getValidationIssues,
+  generateJSONSchema,
+  generateTypeScript,
+  convertSheetToSQL,
+  describeSQLTable,
+  convertSheetToMarkdown,
+  getDiffTable,
+}
+
+export type ExcelWorkerMethods = typeof methods
+
+export type ExcelWorkerRequest =
+  | { id: number; type: 'load'; data: ArrayBuffer | DelimitedText }
+  | { id: number; type: 'call'; method: keyof ExcelWorkerMethods; args: any[] }
+
+export type ExcelWorkerResponse =
+  | { id: number; type: 'progress'; progress: AnalyzeProgress }
+  | { id: number; type: 'result'; value: any }
+  | { id: number; type: 'error'; message: string }
+
+let workbook: XLSX.WorkBook | null = null
+
+function respond(response: ExcelWorkerResponse) {
+  self.postMessage(response)
+}
+
+self.onmessage = (event: MessageEvent<ExcelWorkerRequest>) => {
+  const request = event.data
+
+  try {
+    if (request.type === 'load') {
+      workbook = null
+      const result = analyzeWorkbook(request.data, (progress) => {
+        respond({ id: request.id, type: 'progress', progress })
+      })
+      workbook = result.workbook
+      respond({ id: request.id, type: 'result', value: result.sheets })
+      return
+    }
+
+    if (!workbook) {
+      throw new Error('불러온 워크북이 없습니다')
+    }
+
+    const method = methods[request.method] as (workbook: XLSX.WorkBook, ...args: any[]) => any
+    respond({ id: request.id, type: 'result', value: method(workbook, ...request.args) })
+  } catch (error) {
+    respond({ id: request.id, type: 'error', message: (error as Error).message })
+  }
+}
@@ -0,0 +1,56 @@
+import * as XLSX from 'xlsx'
+import {
+  coerceSheetTable,
+  getSheetTable,
+  resolveColumnTypes,
+  type ColumnType,
+  type SheetExportOptions,
+} from '@/lib/excel-converter'
+
+// 숫자는 오른쪽, 불리언은 가운데, 나머지는 왼쪽 정렬합니다
+const COLUMN_ALIGNMENTS: Partial<Record<ColumnType, string>> = {
+  number: '---:',
+  boolean: ':---:',
+}
+
+/**
+ * 셀 값을 GFM 표 셀에 넣을 수 있게 이스케이프합니다
+ * 파이프는 \| 로, 줄바꿈은 <br>로 바꿉니다
+ */
+export function escapeTableCell(value: any): string {
+  if (value === null || value === undefined) return ''
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r\n|\r|\n/g, '<br>')
+    .trim()
+}
+
+/**
+ * 시트를 GitHub-flavored Markdown 표로 변환합니다
+ * 값은 열 타입에 맞게 변환되어(날짜는 ISO-8601) 표시되고, 열 정렬은 열 타입을 따릅니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 변환할 시트 이름
+ * @param options - 헤더 행, 셀 범위 등 시트별 내보내기 옵션
+ * @returns Markdown 문자열
+ */
+export function convertSheetToMarkdown(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): string {
+  const table = getSheetTable(workbook, sheetName, options)
+  const columnTypes = resolveColumnTypes(table, options)
+  const { rows } = coerceSheetTable(workbook, table, options)
+
+  if (table.headers.length === 0) return ''
+
+  const formatRow = (cells: string[]) => `| ${cells.join(' | ')} |`
+  const lines = [
+    formatRow(table.headers.map(escapeTableCell)),
+    formatRow(columnTypes.map(type => COLUMN_ALIGNMENTS[type] ?? '---')),
+    ...rows.map(row => formatRow(table.headers.map((_, j) => escapeTableCell(row[j])))),
+  ]
+
+  return lines.join('\n') + '\n'
+}
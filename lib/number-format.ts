@@ -0,0 +1,80 @@
+import * as XLSX from 'xlsx'
+
+// SheetJS의 표시 형식 엔진(SSF)이 지원하지 않는 한국어 날짜 형식을 보완합니다
+const KOREAN_WEEKDAYS = ['일요일', '월요일', '화요일', '수요일', '목요일', '금요일', '토요일']
+
+// [$-412], [$-ko-KR] 같은 한국어 로캘 지정
+const KOREAN_LOCALE_PATTERN = /\[\$[^\]]*-(?:412|ko-KR)\]/i
+
+// 따옴표 문자열, 대괄호 구역, 이스케이프 문자는 형식 기호가 아니므로 그대로 둡니다
+const FORMAT_TOKEN_PATTERN = /"[^"]*"?|\[[^\]]*\]?|\\.?|[^"[\\]+/g
+
+/**
+ * 형식 코드의 한국어 요일(aaa, aaaa)과 한국어 로캘의 요일(ddd, dddd), 오전/오후(AM/PM)를
+ * SSF가 처리할 수 있는 형태로 바꿉니다
+ * @returns 바꾼 형식 코드와 오전/오후 변환 필요 여부
+ */
+function localizeFormat(format: string, serial: number, date1904: boolean): { format: string; meridiem: boolean } {
+  const korean = KOREAN_LOCALE_PATTERN.test(format)
+  if (!korean && !/aaa/i.test(format)) return { format, meridiem: false }
+
+  const parsed = XLSX.SSF.parse_date_code(serial, { date1904 })
+  if (!parsed) return { format, meridiem: false }
+
+  const weekday = KOREAN_WEEKDAYS[parsed.q]
+  let meridiem = false
+
+  const localized = (format.match(FORMAT_TOKEN_PATTERN) ?? []).map(token => {
+    if (/^["[\\]/.test(token)) return token
+
+    let replaced = token.replace(/a{4,}/gi, `"${weekday}"`).replace(/a{3}/gi, `"${weekday[0]}"`)
+    if (korean) {
+      replaced = replaced
+        .replace(/d{4,}/gi, `"${weekday}"`)
+        .replace(/(^|[^d])d{3}(?!d)/gi, `$1"${weekday[0]}"`)
+        .replace(/AM\/PM/gi, () => {
+          // SSF는 上午/下午를 12시간제 기호로 해석하므로 결과에서 오전/오후로 바꿉니다
+          meridiem = true
+          return '上午/下午'
+        })
+    }
+    return replaced
+  })
+
+  return { format: localized.join(''), meridiem }
+}
+
+/**
+ * 셀 값을 Excel에 표시되는 텍스트로 변환합니다 (예: 0.125 → "12.5%", 45717 → "2025-03-01")
+ * 표시 형식(z)이 있는 숫자 셀은 워크북의 날짜 체계(1900/1904)로 서식을 다시 적용하고,
+ * 그 밖의 셀은 파일을 읽을 때 만든 텍스트(w)를 사용합니다
+ * @param cell - 셀 객체
+ * @param date1904 - 1904 날짜 체계 사용 여부
+ */
+export function formatCellText(cell: XLSX.CellObject, date1904 = false): string {
+  if (cell.v === undefined || cell.v === null || cell.t === 'z') return ''
+
+  if (cell.t === 'n' && typeof cell.z === 'string') {
+    try {
+      const { format, meridiem } = localizeFormat(cell.z, cell.v as number, date1904)
+      const text = XLSX.SSF.format(format, cell.v, { date1904 })
+      return meridiem ? text.replace(/上午/g, '오전').replace(/下午/g, '오후') : text
+    } catch {
+      // SSF가 해석하지 못한 형식은 읽을 때 만든 텍스트를 사용합니다
+    }
+  }
+
+  return cell.w ?? XLSX.utils.format_cell(cell)
+}
+
+/**
+ * 셀의 원래 값(v)을 텍스트로 변환합니다 (예: 0.125, 날짜 일련번호 45717)
+ * 불리언은 TRUE/FALSE, 오류는 #DIV/0! 같은 오류 텍스트가 됩니다
+ */
+export function formatRawCellText(cell: XLSX.CellObject): string {
+  if (cell.v === undefined || cell.v === null || cell.t === 'z') return ''
+  if (cell.t === 'b') return cell.v ? 'TRUE' : 'FALSE'
+  if (cell.t === 'e') return cell.w ?? ''
+  if (cell.v instanceof Date) return cell.v.toISOString()
+  return String(cell.v)
+}
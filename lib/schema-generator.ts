@@ -0,0 +1,242 @@
+import * as XLSX from 'xlsx'
+import {
+  getSheetRecords,
+  getSheetTable,
+  groupAnnotationColumns,
+  resolveColumnTypes,
+  type AnnotationKind,
+  type ColumnType,
+  type SheetExportOptions,
+} from '@/lib/excel-converter'
+import type { TemporalType } from '@/lib/date-detection'
+
+// 고유값이 이 개수 이하인 텍스트 열은 enum으로 표현합니다
+const ENUM_MAX_VALUES = 10
+
+type TemporalFormat = 'date' | 'date-time' | 'time' | 'duration'
+
+// 타입 변환 후 날짜/시간 열의 값 형식
+const TEMPORAL_FORMATS: Record<TemporalType, TemporalFormat> = {
+  date: 'date',
+  datetime: 'date-time',
+  time: 'time',
+  duration: 'duration',
+}
+
+const FORMAT_LABELS: Record<TemporalFormat, string> = {
+  date: '날짜',
+  'date-time': '날짜/시간',
+  time: '시각',
+  duration: '기간',
+}
+
+type JSONValueKind = 'string' | 'number' | 'boolean' | 'null'
+
+export interface ColumnSchema {
+  key: string
+  columnType: ColumnType
+  kinds: JSONValueKind[] // 내보낸 JSON에 실제로 나타나는 값의 종류
+  required: boolean // 모든 행에 키가 존재하는지 여부
+  format?: TemporalFormat
+  enumValues?: Array<string | null>
+  annotations?: AnnotationKind[] // 값이 { value, link, comment } 객체로 내보내지는 열의 속성 (kinds 등은 value 기준)
+}
+
+/**
+ * 내보낼 JSON 데이터를 기준으로 열별 스키마 정보를 구합니다
+ * 타입 변환 옵션이 켜져 있으면 변환된 값 기준, 꺼져 있으면 원래 값 기준입니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 시트 이름
+ * @param options - 시트별 내보내기 옵션
+ */
+export function describeSheetColumns(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): ColumnSchema[] {
+  const table = getSheetTable(workbook, sheetName, options)
+  const columnTypes = resolveColumnTypes(table, options)
+  const records = getSheetRecords(workbook, sheetName, options)
+
+  // 하이퍼링크/메모를 객체로 내보내면 보조 열은 원래 열의 객체 속성이 됩니다
+  const annotationGroups: ReturnType<typeof groupAnnotationColumns> =
+    options.annotationMode === 'objects' ? groupAnnotationColumns(table) : new Map()
+  const foldedIndexes = new Set(
+    [...annotationGroups.values()].flatMap(companions => companions.map(companion => companion.index))
+  )
+
+  return table.headers.flatMap((key, j): ColumnSchema[] => {
+    if (foldedIndexes.has(j)) return []
+
+    const annotations = annotationGroups.get(j)?.map(companion => companion.kind)
+    const kinds = new Set<JSONValueKind>()
+    const distinct = new Set<string | null>()
+    let presentCount = 0
+
+    for (const record of records) {
+      if (!(key in record)) continue
+      presentCount++
+
+      const value = annotations ? record[key].value : record[key]
+      if (value === null) {
+        kinds.add('null')
+        distinct.add(null)
+      } else if (typeof value === 'number' || typeof value === 'boolean') {
+        kinds.add(typeof value as JSONValueKind)
+      } else {
+        // Date 등 나머지 값은 JSON.stringify 결과가 문자열입니다
+        kinds.add('string')
+        distinct.add(value instanceof Date ? value.toISOString() : String(value))
+      }
+    }
+
+    const column: ColumnSchema = {
+      key,
+      columnType: columnTypes[j],
+      // null은 항상 마지막에 둡니다 (예: ["string", "null"])
+      kinds: [...kinds].sort((a, b) => (a === 'null' ? 1 : b === 'null' ? -1 : a.localeCompare(b))),
+      required: records.length > 0 && presentCount === records.length,
+      annotations,
+    }
+
+    const nonNullKinds = column.kinds.filter(kind => kind !== 'null')
+    const isStringColumn = nonNullKinds.length === 1 && nonNullKinds[0] === 'string'
+
+    if (options.coerceTypes && column.columnType in TEMPORAL_FORMATS && isStringColumn) {
+      column.format = TEMPORAL_FORMATS[column.columnType as TemporalType]
+    } else if (
+      isStringColumn &&
+      distinct.size <= ENUM_MAX_VALUES &&
+      presentCount > distinct.size
+    ) {
+      column.enumValues = [...distinct].sort((a, b) => String(a).localeCompare(String(b)))
+    }
+
+    return [column]
+  })
+}
+
+/**
+ * 값 스키마를 { value, link, comment } 객체 스키마로 감쌉니다
+ */
+function toAnnotatedProperty(value: Record<string, any>, annotations: AnnotationKind[]): Record<string, any> {
+  const properties: Record<string, any> = { value }
+  for (const kind of annotations) {
+    properties[kind] = { type: ['string', 'null'] }
+  }
+  return { type: 'object', properties, required: ['value', ...annotations], additionalProperties: false }
+}
+
+/**
+ * 시트를 JSON Schema (draft 2020-12) 문자열로 변환합니다
+ * 내보낸 JSON(객체 배열) 전체를 검증하는 스키마입니다
+ */
+export function generateJSONSchema(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): string {
+  const columns = describeSheetColumns(workbook, sheetName, options)
+  const properties: Record<string, any> = {}
+
+  for (const column of columns) {
+    const property: Record<string, any> = {}
+
+    if (column.kinds.length === 1) {
+      property.type = column.kinds[0]
+    } else if (column.kinds.length > 1) {
+      property.type = column.kinds
+    }
+
+    if (column.format === 'date') {
+      property.format = 'date'
+    } else if (column.format === 'date-time') {
+      // 시간대 정보가 없으므로 RFC 3339 date-time 대신 패턴으로 표현합니다
+      property.pattern = '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}$'
+    } else if (column.format === 'time') {
+      property.pattern = '^\\d{2}:\\d{2}:\\d{2}$'
+    } else if (column.format === 'duration') {
+      property.format = 'duration'
+    }
+
+    if (column.enumValues) {
+      property.enum = column.kinds.includes('null') ? [...column.enumValues, null] : column.enumValues
+    }
+
+    properties[column.key] = column.annotations ? toAnnotatedProperty(property, column.annotations) : property
+  }
+
+  const schema = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: sheetName,
+    type: 'array',
+    items: {
+      type: 'object',
+      properties,
+      required: columns.filter(column => column.required).map(column => column.key),
+      additionalProperties: false,
+    },
+  }
+
+  return JSON.stringify(schema, null, 2)
+}
+
+/**
+ * 시트 이름을 TypeScript 타입 이름으로 변환합니다 (예: "sales report" → SalesReportRow)
+ */
+export function toTypeName(sheetName: string): string {
+  const words = sheetName.split(/[^a-zA-Z0-9가-힣]+/).filter(Boolean)
+  const pascal = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('')
+  const name = pascal || 'Sheet'
+  return /^[0-9]/.test(name) ? `Sheet${name}Row` : `${name}Row`
+}
+
+function formatPropertyName(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+function formatTypeScriptType(column: ColumnSchema): string {
+  const types: string[] = []
+
+  if (column.enumValues) {
+    types.push(...column.enumValues.filter(value => value !== null).map(value => JSON.stringify(value)))
+  } else {
+    types.push(...column.kinds.filter(kind => kind !== 'null'))
+  }
+
+  if (column.kinds.includes('null')) types.push('null')
+  const valueType = types.length > 0 ? types.join(' | ') : 'unknown'
+
+  if (!column.annotations) return valueType
+  return `{ value: ${valueType}${column.annotations.map(kind => `; ${kind}: string | null`).join('')} }`
+}
+
+/**
+ * 시트를 TypeScript 인터페이스 선언 문자열로 변환합니다
+ * JSON Schema와 같은 열 정보를 사용하므로 두 결과가 일치합니다
+ */
+export function generateTypeScript(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {}
+): string {
+  const columns = describeSheetColumns(workbook, sheetName, options)
+  const typeName = toTypeName(sheetName)
+
+  const lines = [
+    `/**`,
+    ` * 시트 "${sheetName.replace(/\*\//g, '* /')}"의 행 타입`,
+    ` */`,
+    `export interface ${typeName} {`,
+  ]
+
+  for (const column of columns) {
+    if (column.format) {
+      lines.push(`  /** ISO-8601 ${FORMAT_LABELS[column.format]} */`)
+    }
+    lines.push(`  ${formatPropertyName(column.key)}${column.required ? '' : '?'}: ${formatTypeScriptType(column)}`)
+  }
+
+  lines.push('}', '', `export type ${typeName}s = ${typeName}[]`, '')
+  return lines.join('\n')
+}
@@ -0,0 +1,306 @@
+import * as XLSX from 'xlsx'
+import { coerceSheetTable, getSheetTable, type SheetExportOptions } from '@/lib/excel-converter'
+import { buildWorkbookFromData, writeStyledXLSX, type CellHighlights } from '@/lib/xlsx-builder'
+
+/**
+ * 행 비교 결과
+ * - added: 이후 시트에만 있는 키
+ * - removed: 이전 시트에만 있는 키
+ * - changed: 양쪽에 있지만 값이 바뀐 셀이 있는 키
+ */
+export type RowDiffStatus = 'added' | 'removed' | 'changed'
+
+/**
+ * 값이 바뀐 셀
+ */
+export interface CellChange {
+  column: string
+  before: any
+  after: any
+}
+
+/**
+ * 키 하나에 대한 비교 결과
+ */
+export interface RowDiff {
+  status: RowDiffStatus
+  key: string
+  beforeRow: number | null // 이전 시트의 행 번호 (추가된 행은 null)
+  afterRow: number | null // 이후 시트의 행 번호 (삭제된 행은 null)
+  values: Record<string, any> // 추가·변경된 행은 이후 값, 삭제된 행은 이전 값
+  changes: CellChange[] // 변경된 행의 바뀐 셀 (양쪽 시트에 모두 있는 열만 비교)
+}
+
+/**
+ * 비교한 시트
+ */
+export interface DiffSource {
+  fileName: string
+  sheetName: string
+  rowCount: number // 데이터 행 수
+}
+
+/**
+ * 두 시트를 키 열로 비교한 결과
+ */
+export interface SheetDiff {
+  before: DiffSource
+  after: DiffSource
+  keyColumn: string
+  columns: string[] // 이후 시트의 열 순서에 삭제된 열을 더한 모든 열
+  addedColumns: string[]
+  removedColumns: string[]
+  rows: RowDiff[] // 이후 시트 순서의 추가·변경 행, 이어서 이전 시트 순서의 삭제 행
+  summary: { added: number; removed: number; changed: number; unchanged: number }
+  duplicateKeys: string[] // 한쪽 시트에 두 번 이상 나온 키 (나온 순서끼리 짝지어 비교)
+  emptyKeyRowsCount: number // 키 열이 비어 있어 비교하지 않은 행 수 (양쪽 합계)
+}
+
+/**
+ * 비교용으로 읽은 시트 (Worker에서 getDiffTable로 구함)
+ */
+export interface DiffTable {
+  headers: string[]
+  rows: any[][]
+  rowNumbers: number[]
+}
+
+/**
+ * 비교할 시트
+ */
+export interface DiffInput {
+  fileName: string
+  sheetName: string
+  table: DiffTable
+}
+
+export const ROW_DIFF_STATUS_LABELS: Record<RowDiffStatus, string> = {
+  added: '추가',
+  removed: '삭제',
+  changed: '변경',
+}
+
+// 비교 결과 XLSX의 셀 배경색 (Excel 조건부 서식 기본 색)
+const STATUS_FILLS: Record<RowDiffStatus, string> = {
+  added: 'FFC6EFCE',
+  removed: 'FFFFC7CE',
+  changed: 'FFFFEB9C',
+}
+
+const RESULT_SHEET_NAME = '비교 결과'
+const CHANGES_SHEET_NAME = '셀 변경'
+
+function normalizeValue(value: any): any {
+  if (value === undefined || value === '') return null
+  if (value instanceof Date) return value.toISOString()
+  return value
+}
+
+/**
+ * 키 값을 비교용 텍스트로 바꿉니다
+ * 한쪽은 숫자 1001, 다른 쪽은 텍스트 "1001"로 저장된 코드도 같은 키로 봅니다
+ */
+function toKeyText(value: any): string | null {
+  const normalized = normalizeValue(value)
+  if (normalized === null) return null
+  const text = String(normalized).trim()
+  return text === '' ? null : text
+}
+
+/**
+ * 키 열의 값으로 행을 찾을 수 있게 묶습니다 (같은 키는 나온 순서대로)
+ */
+function indexRowsByKey(table: DiffTable, keyIndex: number) {
+  const rowsByKey = new Map<string, number[]>()
+  let emptyKeyRowsCount = 0
+  table.rows.forEach((row, i) => {
+    const key = toKeyText(row[keyIndex])
+    if (key === null) {
+      emptyKeyRowsCount++
+      return
+    }
+    const indexes = rowsByKey.get(key)
+    if (indexes) {
+      indexes.push(i)
+    } else {
+      rowsByKey.set(key, [i])
+    }
+  })
+  return { rowsByKey, emptyKeyRowsCount }
+}
+
+function toRecord(table: DiffTable, rowIndex: number, columns: string[]): Record<string, any> {
+  const record: Record<string, any> = {}
+  for (const column of columns) {
+    const j = table.headers.indexOf(column)
+    record[column] = j === -1 ? null : normalizeValue(table.rows[rowIndex][j])
+  }
+  return record
+}
+
+/**
+ * 헤더와 데이터 행으로 나눈 두 시트를 키 열로 비교합니다
+ * 값은 빈 셀을 null로 보고 그대로 비교하므로 숫자 1과 텍스트 "1"은 다른 값입니다
+ * @param keyColumn - 행을 짝지을 열 (양쪽 시트에 모두 있어야 함)
+ */
+export function compareSheetTables(
+  before: DiffTable,
+  after: DiffTable,
+  keyColumn: string
+): Pick<SheetDiff, 'keyColumn' | 'columns' | 'addedColumns' | 'removedColumns' | 'rows' | 'summary' | 'duplicateKeys' | 'emptyKeyRowsCount'> {
+  const beforeKeyIndex = before.headers.indexOf(keyColumn)
+  const afterKeyIndex = after.headers.indexOf(keyColumn)
+  if (beforeKeyIndex === -1 || afterKeyIndex === -1) {
+    throw new Error(`키 열 "${keyColumn}"이(가) 두 시트에 모두 있어야 합니다`)
+  }
+
+  const beforeColumns = new Set(before.headers)
+  const afterColumns = new Set(after.headers)
+  const addedColumns = after.headers.filter(column => !beforeColumns.has(column))
+  const removedColumns = before.headers.filter(column => !afterColumns.has(column))
+  const columns = [...after.headers, ...removedColumns]
+  // 키 열은 텍스트로 바꿔 짝지었으므로 숫자 1001과 텍스트 "1001"의 차이는 변경으로 보지 않습니다
+  const commonColumns = after.headers
+    .filter(column => column !== keyColumn && beforeColumns.has(column))
+    .map(column => ({ column, beforeIndex: before.headers.indexOf(column), afterIndex: after.headers.indexOf(column) }))
+
+  const beforeIndex = indexRowsByKey(before, beforeKeyIndex)
+  const afterIndex = indexRowsByKey(after, afterKeyIndex)
+  const duplicateKeys = new Set<string>()
+  for (const { rowsByKey } of [beforeIndex, afterIndex]) {
+    rowsByKey.forEach((indexes, key) => {
+      if (indexes.length > 1) duplicateKeys.add(key)
+    })
+  }
+
+  const rows: RowDiff[] = []
+  const matchedBeforeRows = new Set<number>()
+  let unchanged = 0
+  // 같은 키가 여러 번 나오면 n번째 행끼리 짝짓습니다
+  const occurrences = new Map<string, number>()
+
+  after.rows.forEach((row, i) => {
+    const key = toKeyText(row[afterKeyIndex])
+    if (key === null) return
+    const occurrence = occurrences.get(key) ?? 0
+    occurrences.set(key, occurrence + 1)
+    const j = beforeIndex.rowsByKey.get(key)?.[occurrence]
+
+    if (j === undefined) {
+      rows.push({ status: 'added', key, beforeRow: null, afterRow: after.rowNumbers[i], values: toRecord(after, i, columns), changes: [] })
+      return
+    }
+
+    matchedBeforeRows.add(j)
+    const changes = commonColumns.flatMap(({ column, beforeIndex, afterIndex }) => {
+      const previous = normalizeValue(before.rows[j][beforeIndex])
+      const next = normalizeValue(row[afterIndex])
+      return previous === next ? [] : [{ column, before: previous, after: next }]
+    })
+    if (changes.length === 0) {
+      unchanged++
+      return
+    }
+    rows.push({ status: 'changed', key, beforeRow: before.rowNumbers[j], afterRow: after.rowNumbers[i], values: toRecord(after, i, columns), changes })
+  })
+
+  before.rows.forEach((row, j) => {
+    const key = toKeyText(row[beforeKeyIndex])
+    if (key === null || matchedBeforeRows.has(j)) return
+    rows.push({ status: 'removed', key, beforeRow: before.rowNumbers[j], afterRow: null, values: toRecord(before, j, columns), changes: [] })
+  })
+
+  const count = (status: RowDiffStatus) => rows.filter(row => row.status === status).length
+
+  return {
+    keyColumn,
+    columns,
+    addedColumns,
+    removedColumns,
+    rows,
+    summary: { added: count('added'), removed: count('removed'), changed: count('changed'), unchanged },
+    duplicateKeys: [...duplicateKeys],
+    emptyKeyRowsCount: beforeIndex.emptyKeyRowsCount + afterIndex.emptyKeyRowsCount,
+  }
+}
+
+/**
+ * 시트를 비교용 표로 읽습니다 (워크북이 있는 Worker에서 호출)
+ * 날짜 일련번호가 ISO-8601 텍스트가 되도록 열 타입에 맞게 값을 변환합니다
+ * @param options - 헤더 옵션 (양쪽 시트에 같은 옵션을 사용)
+ */
+export function getDiffTable(workbook: XLSX.WorkBook, sheetName: string, options: SheetExportOptions = {}): DiffTable {
+  const table = getSheetTable(workbook, sheetName, options)
+  const { rows } = coerceSheetTable(workbook, table, options)
+  return { headers: table.headers, rows, rowNumbers: table.rowNumbers }
+}
+
+/**
+ * 두 시트를 키 열로 비교합니다
+ * @param before - 이전 버전 (파일 이름, 시트 이름과 getDiffTable로 읽은 표)
+ * @param after - 이후 버전
+ * @param keyColumn - 행을 짝지을 열 (예: 상품코드)
+ */
+export function compareSheets(before: DiffInput, after: DiffInput, keyColumn: string): SheetDiff {
+  return {
+    before: { fileName: before.fileName, sheetName: before.sheetName, rowCount: before.table.rows.length },
+    after: { fileName: after.fileName, sheetName: after.sheetName, rowCount: after.table.rows.length },
+    ...compareSheetTables(before.table, after.table, keyColumn),
+  }
+}
+
+/**
+ * 비교 결과를 JSON 문서로 만듭니다
+ */
+export function generateDiffJSON(diff: SheetDiff): string {
+  return JSON.stringify(diff, null, 2)
+}
+
+/**
+ * 비교 결과를 "비교 결과", "셀 변경" 두 시트의 워크북으로 만듭니다
+ * 추가된 행은 초록색, 삭제된 행은 빨간색, 바뀐 셀은 노란색 배경이며 바뀐 셀에는 이전 값을 메모로 남깁니다
+ * @returns 워크북과 셀 배경색
+ */
+export function buildDiffWorkbook(diff: SheetDiff): { workbook: XLSX.WorkBook; highlights: CellHighlights } {
+  const resultHeaders = ['상태', '이전 행', '이후 행', ...diff.columns]
+  const resultFills: Record<string, string> = {}
+  const resultRows = diff.rows.map((row, i) => {
+    const changedColumns = new Set(row.changes.map(change => change.column))
+    const values = [ROW_DIFF_STATUS_LABELS[row.status], row.beforeRow, row.afterRow, ...diff.columns.map(column => row.values[column])]
+    return values.map((value, c) => {
+      const highlighted = c === 0 || row.status !== 'changed' || changedColumns.has(diff.columns[c - 3])
+      if (!highlighted) return value
+      resultFills[XLSX.utils.encode_cell({ r: i + 1, c })] = STATUS_FILLS[row.status]
+      // 값이 없는 셀은 저장되지 않아 색을 칠할 수 없으므로 빈 텍스트로 둡니다
+      return value ?? ''
+    })
+  })
+  const changeRows = diff.rows.flatMap(row =>
+    row.changes.map(change => [row.key, change.column, change.before, change.after, row.beforeRow, row.afterRow])
+  )
+  const workbook = buildWorkbookFromData([
+    { name: RESULT_SHEET_NAME, headers: resultHeaders, rows: resultRows },
+    { name: CHANGES_SHEET_NAME, headers: [diff.keyColumn, '열', '이전 값', '이후 값', '이전 행', '이후 행'], rows: changeRows },
+  ])
+
+  // 바뀐 셀에는 이전 값을 메모로 남깁니다
+  const resultSheet = workbook.Sheets[RESULT_SHEET_NAME]
+  diff.rows.forEach((row, i) => {
+    for (const change of row.changes) {
+      const cell = resultSheet[XLSX.utils.encode_cell({ r: i + 1, c: 3 + diff.columns.indexOf(change.column) })]
+      cell.c = [{ a: '', t: `이전 값: ${change.before ?? '(빈 값)'}` }]
+      cell.c.hidden = true
+    }
+  })
+
+  return { workbook, highlights: { [RESULT_SHEET_NAME]: resultFills } }
+}
+
+/**
+ * 비교 결과를 색으로 표시한 XLSX 파일로 저장합니다
+ * @returns XLSX 파일 내용
+ */
+export async function writeDiffXLSX(diff: SheetDiff): Promise<ArrayBuffer> {
+  const { workbook, highlights } = buildDiffWorkbook(diff)
+  return writeStyledXLSX(workbook, highlights)
+}
@@ -0,0 +1,180 @@
+import type { SheetTable } from '@/lib/excel-converter'
+
+/**
+ * 표 형태 변환 방식
+ * - unpivot: 가로로 늘어선 값 열을 "항목, 값" 두 열의 행으로 펼치기 (wide → long)
+ * - pivot: 한 열의 값을 열 이름으로 삼아 가로로 모으기 (long → wide)
+ */
+export type ReshapeMode = 'unpivot' | 'pivot'
+
+/**
+ * 피벗할 때 같은 칸에 모이는 값을 합치는 방법
+ */
+export type PivotAggregation = 'sum' | 'mean' | 'count' | 'min' | 'max' | 'first' | 'last'
+
+/**
+ * 표 형태 변환 설정 (열 키는 열 매핑을 적용한 뒤의 키)
+ */
+export interface ReshapeOptions {
+  mode: ReshapeMode
+  idColumns: string[] // 행을 구분하여 그대로 유지할 열 (예: 제품)
+  valueColumns?: string[] // unpivot: 펼칠 열 (비어 있으면 기준 열을 제외한 모든 열)
+  nameKey?: string // unpivot: 펼친 열 이름을 담을 열 키 (기본값 "항목")
+  valueKey?: string // unpivot: 값을 담을 열 키 (기본값 "값") / pivot: 모을 값이 든 열
+  skipEmptyValues?: boolean // unpivot: 값이 빈 행은 만들지 않기
+  columnKey?: string // pivot: 값을 열 이름으로 삼을 열 (예: 월)
+  aggregation?: PivotAggregation // pivot: 값 합치는 방법 (기본값 sum)
+}
+
+export const DEFAULT_UNPIVOT_NAME_KEY = '항목'
+export const DEFAULT_UNPIVOT_VALUE_KEY = '값'
+
+// 피벗 열 이름으로 쓸 값이 비어 있을 때의 열 이름
+const EMPTY_PIVOT_COLUMN = '(빈 값)'
+
+function isEmptyValue(value: any): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+function toKeyText(value: any): string {
+  if (isEmptyValue(value)) return EMPTY_PIVOT_COLUMN
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+/**
+ * 이미 쓰인 이름과 겹치지 않는 열 키를 만듭니다 (예: "값" → "값_2")
+ */
+function uniqueKey(key: string, used: Set<string>): string {
+  let candidate = key
+  for (let suffix = 2; used.has(candidate); suffix++) {
+    candidate = `${key}_${suffix}`
+  }
+  used.add(candidate)
+  return candidate
+}
+
+function aggregate(values: any[], aggregation: PivotAggregation): any {
+  const present = values.filter(value => !isEmptyValue(value))
+  if (aggregation === 'count') return present.length
+  if (present.length === 0) return null
+  if (aggregation === 'first') return present[0]
+  if (aggregation === 'last') return present[present.length - 1]
+
+  // 합계, 평균, 최솟값, 최댓값은 숫자 값만 사용합니다
+  const numbers = present.filter((value): value is number => typeof value === 'number' && Number.isFinite(value))
+  if (numbers.length === 0) return null
+  switch (aggregation) {
+    case 'sum':
+      return numbers.reduce((sum, n) => sum + n, 0)
+    case 'mean':
+      return numbers.reduce((sum, n) => sum + n, 0) / numbers.length
+    case 'min':
+      return numbers.reduce((min, n) => Math.min(min, n))
+    case 'max':
+      return numbers.reduce((max, n) => Math.max(max, n))
+  }
+}
+
+function unpivotTable(table: SheetTable, options: ReshapeOptions): SheetTable {
+  const indexOf = new Map(table.headers.map((key, j) => [key, j]))
+  const idIndexes = options.idColumns.flatMap(key => (indexOf.has(key) ? [indexOf.get(key)!] : []))
+  const valueIndexes = options.valueColumns?.length
+    ? options.valueColumns.flatMap(key => (indexOf.has(key) ? [indexOf.get(key)!] : []))
+    : table.headers.flatMap((_, j) => (idIndexes.includes(j) ? [] : [j]))
+  if (valueIndexes.length === 0) return table
+
+  const used = new Set(idIndexes.map(j => table.headers[j]))
+  const nameKey = uniqueKey(options.nameKey?.trim() || DEFAULT_UNPIVOT_NAME_KEY, used)
+  const valueKey = uniqueKey(options.valueKey?.trim() || DEFAULT_UNPIVOT_VALUE_KEY, used)
+
+  const rows: any[][] = []
+  const rowNumbers: number[] = []
+  table.rows.forEach((row, i) => {
+    for (const j of valueIndexes) {
+      if (options.skipEmptyValues && isEmptyValue(row[j])) continue
+      rows.push([...idIndexes.map(index => row[index]), table.headers[j], row[j]])
+      rowNumbers.push(table.rowNumbers[i])
+    }
+  })
+
+  return {
+    headers: [...idIndexes.map(j => table.headers[j]), nameKey, valueKey],
+    rows,
+    rowNumbers,
+    // 새로 만든 열은 원본 시트의 한 열에 대응하지 않으므로 -1입니다
+    columnIndexes: [...idIndexes.map(j => table.columnIndexes[j]), -1, -1],
+    sourceKeys: [...idIndexes.map(j => table.sourceKeys[j]), nameKey, valueKey],
+    companionKinds: [...idIndexes.map(j => table.companionKinds[j]), null, null],
+    // 값 열은 펼친 열 중 첫 번째 열의 표시 형식을 따릅니다 (날짜 일련번호 판별용)
+    numberFormats: [...idIndexes.map(j => table.numberFormats[j]), undefined, table.numberFormats[valueIndexes[0]]],
+    headerRowNumber: table.headerRowNumber,
+  }
+}
+
+function pivotTable(table: SheetTable, options: ReshapeOptions): SheetTable {
+  const indexOf = new Map(table.headers.map((key, j) => [key, j]))
+  const columnIndex = options.columnKey !== undefined ? indexOf.get(options.columnKey) : undefined
+  const valueIndex = options.valueKey !== undefined ? indexOf.get(options.valueKey) : undefined
+  if (columnIndex === undefined || valueIndex === undefined) return table
+
+  const idIndexes = options.idColumns.flatMap(key => {
+    const index = indexOf.get(key)
+    return index !== undefined && index !== columnIndex && index !== valueIndex ? [index] : []
+  })
+  const aggregation = options.aggregation ?? 'sum'
+
+  // 기준 열 값이 같은 행을 묶고, 묶음마다 열 값별로 모을 값을 모읍니다 (처음 나온 순서 유지)
+  const groups = new Map<string, { row: any[]; rowNumber: number; cells: Map<string, any[]> }>()
+  const pivotColumns = new Set<string>()
+  table.rows.forEach((row, i) => {
+    const groupKey = JSON.stringify(idIndexes.map(j => (isEmptyValue(row[j]) ? null : row[j])))
+    let group = groups.get(groupKey)
+    if (!group) {
+      group = { row, rowNumber: table.rowNumbers[i], cells: new Map() }
+      groups.set(groupKey, group)
+    }
+
+    const column = toKeyText(row[columnIndex])
+    pivotColumns.add(column)
+    const values = group.cells.get(column)
+    if (values) {
+      values.push(row[valueIndex])
+    } else {
+      group.cells.set(column, [row[valueIndex]])
+    }
+  })
+
+  const used = new Set(idIndexes.map(j => table.headers[j]))
+  const pivotKeys = [...pivotColumns].map(column => uniqueKey(column, used))
+  // 합계와 평균, 개수는 원래 값의 표시 형식(날짜 등)을 따르지 않습니다
+  const valueFormat = ['min', 'max', 'first', 'last'].includes(aggregation) ? table.numberFormats[valueIndex] : undefined
+
+  return {
+    headers: [...idIndexes.map(j => table.headers[j]), ...pivotKeys],
+    rows: [...groups.values()].map(group => [
+      ...idIndexes.map(j => group.row[j]),
+      ...[...pivotColumns].map(column => {
+        const values = group.cells.get(column)
+        return values ? aggregate(values, aggregation) : null
+      }),
+    ]),
+    rowNumbers: [...groups.values()].map(group => group.rowNumber),
+    columnIndexes: [...idIndexes.map(j => table.columnIndexes[j]), ...pivotKeys.map(() => -1)],
+    sourceKeys: [...idIndexes.map(j => table.sourceKeys[j]), ...pivotKeys],
+    companionKinds: [...idIndexes.map(j => table.companionKinds[j]), ...pivotKeys.map(() => null)],
+    numberFormats: [...idIndexes.map(j => table.numberFormats[j]), ...pivotKeys.map(() => valueFormat)],
+    headerRowNumber: table.headerRowNumber,
+  }
+}
+
+/**
+ * 시트 데이터의 형태를 바꿉니다 (세로로 펼치기 또는 가로로 모으기)
+ * 설정한 열이 표에 없으면 가능한 범위에서 무시하고, 변환할 수 없으면 그대로 반환합니다
+ * @param table - 헤더 옵션과 열 매핑을 적용한 시트 데이터
+ * @param options - 형태 변환 설정 (없으면 그대로 반환)
+ * @returns 형태를 바꾼 시트 데이터 (각 행의 행 번호는 그 행을 만든 첫 원본 행)
+ */
+export function reshapeSheetTable(table: SheetTable, options: ReshapeOptions | undefined): SheetTable {
+  if (!options) return table
+  return options.mode === 'unpivot' ? unpivotTable(table, options) : pivotTable(table, options)
+}
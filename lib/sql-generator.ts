@@ -0,0 +1,304 @@
+import * as XLSX from 'xlsx'
+import {
+  coerceSheetTable,
+  getSheetTable,
+  resolveColumnTypes,
+  type ColumnType,
+  type SheetExportOptions,
+} from '@/lib/excel-converter'
+import type { TemporalType } from '@/lib/date-detection'
+
+export type SQLDialect = 'postgresql' | 'mysql' | 'sqlite'
+
+export interface SQLExportOptions {
+  dialect: SQLDialect
+  batchSize?: number // INSERT 문 하나에 넣을 행 수
+}
+
+export const DEFAULT_SQL_BATCH_SIZE = 500
+
+// 식별자 최대 길이 (PostgreSQL 63, MySQL 64 중 작은 값)
+const MAX_IDENTIFIER_LENGTH = 63
+
+type SQLValueKind = 'integer' | 'real' | 'boolean' | 'date' | 'datetime' | 'time' | 'interval' | 'text'
+
+const SQL_TYPES: Record<SQLDialect, Record<SQLValueKind, string>> = {
+  postgresql: {
+    integer: 'BIGINT',
+    real: 'DOUBLE PRECISION',
+    boolean: 'BOOLEAN',
+    date: 'DATE',
+    datetime: 'TIMESTAMP',
+    time: 'TIME',
+    interval: 'INTERVAL',
+    text: 'TEXT',
+  },
+  mysql: {
+    integer: 'BIGINT',
+    real: 'DOUBLE',
+    boolean: 'BOOLEAN',
+    date: 'DATE',
+    datetime: 'DATETIME',
+    time: 'TIME',
+    interval: 'TEXT', // MySQL에는 기간 타입이 없으므로 ISO-8601 기간 문자열(PT1H30M)로 저장합니다
+    text: 'TEXT',
+  },
+  // SQLite는 날짜 타입이 없으므로 ISO-8601 문자열로 저장합니다
+  sqlite: {
+    integer: 'INTEGER',
+    real: 'REAL',
+    boolean: 'INTEGER',
+    date: 'TEXT',
+    datetime: 'TEXT',
+    time: 'TEXT',
+    interval: 'TEXT',
+    text: 'TEXT',
+  },
+}
+
+const TRANSACTION_STATEMENTS: Record<SQLDialect, [string, string]> = {
+  postgresql: ['BEGIN;', 'COMMIT;'],
+  mysql: ['START TRANSACTION;', 'COMMIT;'],
+  sqlite: ['BEGIN TRANSACTION;', 'COMMIT;'],
+}
+
+export interface SQLColumnMapping {
+  source: string // 원래 헤더
+  identifier: string // SQL 열 이름
+  sqlType: string
+}
+
+export interface SQLTableMapping {
+  source: string // 원래 시트 이름
+  tableName: string
+  columns: SQLColumnMapping[]
+}
+
+// 한글 음절을 국어의 로마자 표기법 기준 자모 단위로 옮깁니다 (음운 변화는 반영하지 않음)
+const INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h']
+const VOWELS = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i']
+const FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't']
+
+const HANGUL_START = 0xac00
+const HANGUL_END = 0xd7a3
+
+/**
+ * 한글 음절을 로마자로 바꿉니다 (예: "상품명" → "sangpummyeong")
+ * 한글이 아닌 문자는 그대로 둡니다
+ */
+export function romanizeHangul(text: string): string {
+  return Array.from(text.normalize('NFC'), char => {
+    const code = char.charCodeAt(0)
+    if (code < HANGUL_START || code > HANGUL_END) return char
+
+    const index = code - HANGUL_START
+    const initial = Math.floor(index / (21 * 28))
+    const vowel = Math.floor((index % (21 * 28)) / 28)
+    const final = index % 28
+    return INITIALS[initial] + VOWELS[vowel] + FINALS[final]
+  }).join('')
+}
+
+/**
+ * 시트 이름이나 헤더를 따옴표 없이도 쓸 수 있는 SQL 식별자로 바꿉니다
+ * 한글은 로마자로, 그 밖의 특수문자는 밑줄로 바꾸고 소문자로 통일합니다
+ * @param name - 원래 이름
+ * @param fallback - 변환 결과가 비었거나 숫자로 시작할 때 사용할 접두어
+ */
+export function sanitizeIdentifier(name: string, fallback: string): string {
+  const identifier = romanizeHangul(name.trim())
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '')
+
+  if (identifier === '') return fallback
+  const prefixed = /^[0-9]/.test(identifier) ? `${fallback}_${identifier}` : identifier
+  return prefixed.slice(0, MAX_IDENTIFIER_LENGTH)
+}
+
+/**
+ * 중복된 식별자에 _2, _3 접미사를 붙여 고유하게 만듭니다
+ */
+function dedupeIdentifiers(identifiers: string[]): string[] {
+  const used = new Set<string>()
+
+  return identifiers.map(identifier => {
+    let candidate = identifier
+    for (let suffix = 2; used.has(candidate); suffix++) {
+      const tail = `_${suffix}`
+      candidate = identifier.slice(0, MAX_IDENTIFIER_LENGTH - tail.length) + tail
+    }
+    used.add(candidate)
+    return candidate
+  })
+}
+
+// 타입 변환에 성공한 날짜/시간 값의 형식 (coerceSheetTable 결과)
+const TEMPORAL_VALUE_PATTERNS: Record<TemporalType, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  datetime: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}$/,
+  duration: /^PT(\d+H)?(\d+M)?(\d+S)?$/,
+}
+
+/**
+ * 변환된 값을 보고 SQL 열 타입을 정합니다
+ * 변환에 실패한 값이 섞여 있으면 INSERT가 실패하지 않도록 텍스트로 저장합니다
+ */
+function getValueKind(type: ColumnType, values: any[]): SQLValueKind {
+  const present = values.filter(value => value !== null)
+
+  switch (type) {
+    case 'number':
+      if (!present.every(value => typeof value === 'number' && isFinite(value))) return 'text'
+      return present.every(value => Number.isSafeInteger(value)) ? 'integer' : 'real'
+    case 'boolean':
+      return present.every(value => typeof value === 'boolean') ? 'boolean' : 'text'
+    case 'date':
+    case 'datetime':
+    case 'time':
+    case 'duration': {
+      const kind: SQLValueKind = type === 'duration' ? 'interval' : type
+      return present.every(value => typeof value === 'string' && TEMPORAL_VALUE_PATTERNS[type].test(value)) ? kind : 'text'
+    }
+    default:
+      return 'text'
+  }
+}
+
+function quoteIdentifier(identifier: string, dialect: SQLDialect): string {
+  return dialect === 'mysql'
+    ? '`' + identifier.replace(/`/g, '``') + '`'
+    : '"' + identifier.replace(/"/g, '""') + '"'
+}
+
+function quoteString(value: string, dialect: SQLDialect): string {
+  // NUL 문자는 PostgreSQL 텍스트에 넣을 수 없으므로 제거합니다
+  let escaped = value.replace(/\u0000/g, '').replace(/'/g, "''")
+  // MySQL은 기본 설정에서 백슬래시를 이스케이프 문자로 해석합니다
+  if (dialect === 'mysql') escaped = escaped.replace(/\\/g, '\\\\')
+  return `'${escaped}'`
+}
+
+function formatSQLValue(value: any, kind: SQLValueKind, dialect: SQLDialect): string {
+  if (value === null || value === undefined) return 'NULL'
+
+  switch (kind) {
+    case 'integer':
+    case 'real':
+      return String(value)
+    case 'boolean':
+      if (dialect === 'sqlite') return value ? '1' : '0'
+      return value ? 'TRUE' : 'FALSE'
+    case 'datetime':
+      return quoteString(dialect === 'sqlite' ? value : value.replace('T', ' '), dialect)
+    default:
+      return quoteString(value instanceof Date ? value.toISOString() : String(value), dialect)
+  }
+}
+
+// SQL 주석에 줄바꿈이 들어가지 않도록 한 줄로 만듭니다
+function toCommentText(text: string): string {
+  return text.replace(/[\r\n]+/g, ' ')
+}
+
+/**
+ * 시트를 SQL 테이블로 옮길 때 사용할 테이블/열 이름과 타입을 구합니다
+ * SQL 값은 열 타입 옵션과 관계없이 항상 열 타입에 맞게 변환됩니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 시트 이름
+ * @param options - 시트별 내보내기 옵션
+ * @param sqlOptions - SQL 방언 등 SQL 내보내기 옵션
+ */
+export function describeSQLTable(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {},
+  sqlOptions: SQLExportOptions = { dialect: 'postgresql' }
+): SQLTableMapping {
+  return buildSQLTable(workbook, sheetName, options, sqlOptions).mapping
+}
+
+function buildSQLTable(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions,
+  sqlOptions: SQLExportOptions
+) {
+  const table = getSheetTable(workbook, sheetName, options)
+  const columnTypes = resolveColumnTypes(table, options)
+  const { rows } = coerceSheetTable(workbook, table, options)
+
+  const kinds = table.headers.map((_, j) => getValueKind(columnTypes[j], rows.map(row => row[j])))
+  const identifiers = dedupeIdentifiers(
+    table.headers.map((header, j) => sanitizeIdentifier(header, `column_${j + 1}`))
+  )
+
+  const mapping: SQLTableMapping = {
+    source: sheetName,
+    tableName: sanitizeIdentifier(sheetName, 'sheet'),
+    columns: table.headers.map((header, j) => ({
+      source: header,
+      identifier: identifiers[j],
+      sqlType: SQL_TYPES[sqlOptions.dialect][kinds[j]],
+    })),
+  }
+
+  return { mapping, kinds, rows }
+}
+
+/**
+ * 시트를 CREATE TABLE 문과 일괄 INSERT 문으로 이루어진 SQL 스크립트로 변환합니다
+ * 전체 스크립트는 하나의 트랜잭션으로 실행되며, 원래 헤더와 열 이름의 대응은 주석으로 남깁니다
+ * @param workbook - XLSX 워크북 객체
+ * @param sheetName - 변환할 시트 이름
+ * @param options - 시트별 내보내기 옵션
+ * @param sqlOptions - SQL 방언 등 SQL 내보내기 옵션
+ * @returns SQL 문자열
+ */
+export function convertSheetToSQL(
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  options: SheetExportOptions = {},
+  sqlOptions: SQLExportOptions = { dialect: 'postgresql' }
+): string {
+  const { dialect } = sqlOptions
+  const batchSize = Math.max(1, sqlOptions.batchSize ?? DEFAULT_SQL_BATCH_SIZE)
+  const { mapping, kinds, rows } = buildSQLTable(workbook, sheetName, options, sqlOptions)
+  const tableName = quoteIdentifier(mapping.tableName, dialect)
+  const [begin, commit] = TRANSACTION_STATEMENTS[dialect]
+
+  const lines = [
+    `-- 시트 "${toCommentText(sheetName)}" → 테이블 ${mapping.tableName}`,
+    '-- 열 매핑:',
+    ...mapping.columns.map(column => `--   "${toCommentText(column.source)}" → ${column.identifier} (${column.sqlType})`),
+    '',
+    begin,
+    '',
+  ]
+
+  if (mapping.columns.length === 0) {
+    lines.push('-- 내보낼 열이 없습니다', '', commit, '')
+    return lines.join('\n')
+  }
+
+  lines.push(
+    `CREATE TABLE ${tableName} (`,
+    mapping.columns.map(column => `  ${quoteIdentifier(column.identifier, dialect)} ${column.sqlType}`).join(',\n'),
+    ');',
+    ''
+  )
+
+  const columnList = mapping.columns.map(column => quoteIdentifier(column.identifier, dialect)).join(', ')
+
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const values = rows.slice(start, start + batchSize).map(row =>
+      `  (${row.map((value, j) => formatSQLValue(value, kinds[j], dialect)).join(', ')})`
+    )
+    lines.push(`INSERT INTO ${tableName} (${columnList}) VALUES`, values.join(',\n') + ';', '')
+  }
+
+  lines.push(commit, '')
+  return lines.join('\n')
+}
@@ -0,0 +1,131 @@
+import type { SheetTable } from '@/lib/excel-converter'
+
+/**
+ * 셀 값 정리 단계
+ * - trim: 앞뒤 공백 제거
+ * - collapseWhitespace: 연속된 공백과 줄바꿈을 공백 하나로
+ * - fullWidthToHalfWidth: 전각 영문/숫자/기호를 반각으로 ("ＡＢＣ１２３" → "ABC123")
+ * - parseCurrency: 통화 기호("원", "₩")와 천 단위 쉼표를 떼고 숫자로 ("1,234원" → 1234)
+ * - parseYesNo: Y/N, 예/아니오를 불리언으로
+ * - emptyToNull: 빈 문자열을 null로
+ */
+export type CleaningStepType =
+  | 'trim'
+  | 'collapseWhitespace'
+  | 'fullWidthToHalfWidth'
+  | 'parseCurrency'
+  | 'parseYesNo'
+  | 'emptyToNull'
+
+// 정리 단계를 새로 켤 때의 권장 순서
+export const CLEANING_STEP_TYPES: CleaningStepType[] = [
+  'trim',
+  'collapseWhitespace',
+  'fullWidthToHalfWidth',
+  'parseCurrency',
+  'parseYesNo',
+  'emptyToNull',
+]
+
+/**
+ * 정리 단계로 값이 바뀐 셀
+ */
+export interface CleaningChange {
+  row: number // 원본 시트 행 번호
+  column: string // 열 키 (열 매핑 적용 전)
+  before: any
+  after: any
+}
+
+const YES_VALUES = ['y', 'yes', '예', '네']
+const NO_VALUES = ['n', 'no', '아니오', '아니요']
+
+// 통화 기호나 천 단위 쉼표가 있는 금액 (예: "1,234원", "₩ 1,000", "-3,500 원", "KRW 12,000")
+const CURRENCY_PATTERN = /^([-+])?\s*(?:[₩￦$]|KRW)?\s*(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?\s*(?:원|KRW)?$/i
+
+function toHalfWidth(text: string): string {
+  return text
+    .replace(/[\uff01-\uff5e]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/\u3000/g, ' ')
+}
+
+/**
+ * "1,234원" 같은 금액 텍스트를 숫자로 바꿉니다
+ * 통화 기호나 천 단위 쉼표가 없는 숫자 텍스트("00123" 같은 코드)는 그대로 둡니다
+ */
+function parseCurrency(text: string): string | number {
+  const match = text.trim().match(CURRENCY_PATTERN)
+  if (!match) return text
+
+  const [, sign, integer, fraction] = match
+  const hasMarker = integer.includes(',') || /[₩￦$원]|KRW/i.test(text)
+  if (!hasMarker) return text
+
+  const value = Number(integer.replace(/,/g, '') + (fraction ?? ''))
+  return sign === '-' ? -value : value
+}
+
+function applyStep(value: any, step: CleaningStepType): any {
+  if (typeof value !== 'string') return value
+
+  switch (step) {
+    case 'trim':
+      return value.trim()
+    case 'collapseWhitespace':
+      return value.replace(/\s+/g, ' ')
+    case 'fullWidthToHalfWidth':
+      return toHalfWidth(value)
+    case 'parseCurrency':
+      return parseCurrency(value)
+    case 'parseYesNo': {
+      const normalized = value.trim().toLowerCase()
+      if (YES_VALUES.includes(normalized)) return true
+      if (NO_VALUES.includes(normalized)) return false
+      return value
+    }
+    case 'emptyToNull':
+      return value === '' ? null : value
+  }
+}
+
+/**
+ * 셀 값 하나에 정리 단계를 순서대로 적용합니다 (문자열이 아닌 값은 그대로)
+ */
+export function cleanValue(value: any, steps: CleaningStepType[]): any {
+  return steps.reduce(applyStep, value)
+}
+
+/**
+ * 시트 데이터의 셀 값에 정리 단계를 적용합니다
+ * 수식, 하이퍼링크, 메모 보조 열은 정리하지 않습니다
+ * @param steps - 적용할 정리 단계 (순서대로)
+ */
+export function cleanSheetTable(table: SheetTable, steps: CleaningStepType[] | undefined): SheetTable {
+  if (!steps || steps.length === 0) return table
+
+  return {
+    ...table,
+    rows: table.rows.map(row =>
+      table.headers.map((_, j) => (table.companionKinds[j] === null ? cleanValue(row[j], steps) : row[j]))
+    ),
+  }
+}
+
+/**
+ * 정리 전후의 시트 데이터를 비교하여 값이 바뀐 셀을 찾습니다
+ * @param before - 정리 전 시트 데이터
+ * @param after - cleanSheetTable로 정리한 시트 데이터
+ */
+export function getCleaningChanges(before: SheetTable, after: SheetTable): CleaningChange[] {
+  if (before === after) return []
+
+  const changes: CleaningChange[] = []
+  after.rows.forEach((row, i) => {
+    after.headers.forEach((column, j) => {
+      const previous = before.rows[i][j]
+      if (row[j] === previous) return
+      changes.push({ row: after.rowNumbers[i], column, before: previous, after: row[j] })
+    })
+  })
+  return changes
+}
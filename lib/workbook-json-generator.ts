@@ -0,0 +1,67 @@
+import type { ValidationIssue } from '@/lib/column-validation'
+import type { SheetInfo } from '@/lib/excel-converter'
+
+/**
+ * 워크북 전체를 하나의 JSON 문서로 내보낼 때의 구조
+ * - by-sheet: 시트 이름을 키로 하는 객체 ({ "매출": [...], "비용": [...] })
+ * - flat: 모든 행을 하나의 배열로 합치고 각 행에 시트 이름(__sheet)을 추가
+ */
+export type WorkbookJSONLayout = 'by-sheet' | 'flat'
+
+export const SHEET_NAME_KEY = '__sheet'
+
+export interface WorkbookJSONSheetMetadata {
+  name: string
+  index: number // 워크북의 시트 순서 (0부터 시작)
+  hidden: boolean // 숨겨진 시트 여부 (veryHidden 포함)
+  veryHidden: boolean // VBA로만 다시 표시할 수 있는 시트 여부
+  rowCount: number // 내보낸 행 수
+  validationIssues?: ValidationIssue[] // 경고 모드로 내보낸 검증 규칙 위반 (위반이 있을 때만)
+}
+
+export interface WorkbookJSONMetadata {
+  fileName: string
+  layout: WorkbookJSONLayout
+  sheets: WorkbookJSONSheetMetadata[] // 워크북의 시트 순서대로
+}
+
+/**
+ * 시트별 행 객체를 워크북 메타데이터와 함께 하나의 JSON 문서로 합칩니다
+ * "2024" 같은 숫자 시트 이름은 JSON 객체에서 순서가 바뀔 수 있으므로 시트 순서는 metadata.sheets를 기준으로 하세요
+ * @param fileName - 원본 파일 이름
+ * @param sheets - 워크북 순서대로 정렬한 시트 정보, 내보낼 행 객체와 검증 규칙 위반
+ * @param layout - 문서 구조
+ * @returns JSON 문자열
+ */
+export function buildWorkbookJSON(
+  fileName: string,
+  sheets: Array<{ info: SheetInfo; records: Record<string, any>[]; validationIssues?: ValidationIssue[] }>,
+  layout: WorkbookJSONLayout
+): string {
+  const metadata: WorkbookJSONMetadata = {
+    fileName,
+    layout,
+    sheets: sheets.map(({ info, records, validationIssues }, index) => ({
+      name: info.name,
+      index,
+      hidden: (info.visibility ?? 'visible') !== 'visible',
+      veryHidden: info.visibility === 'veryHidden',
+      rowCount: records.length,
+      ...(validationIssues && validationIssues.length > 0 && { validationIssues }),
+    })),
+  }
+
+  if (layout === 'flat') {
+    const rows = sheets.flatMap(({ info, records }) =>
+      // 시트 이름을 첫 키로 두고, 원래 __sheet 열이 있어도 시트 이름이 우선합니다
+      records.map(record => Object.assign({ [SHEET_NAME_KEY]: info.name }, record, { [SHEET_NAME_KEY]: info.name }))
+    )
+    return JSON.stringify({ metadata, rows }, null, 2)
+  }
+
+  const bySheet: Record<string, Record<string, any>[]> = {}
+  for (const { info, records } of sheets) {
+    bySheet[info.name] = records
+  }
+  return JSON.stringify({ metadata, sheets: bySheet }, null, 2)
+}
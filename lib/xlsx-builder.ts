@@ -0,0 +1,299 @@
+import * as XLSX from 'xlsx'
+import JSZip from 'jszip'
+import { detectDelimiter, parseDelimitedRows } from '@/lib/delimited-text'
+
+export type DataFileFormat = 'json' | 'ndjson' | 'csv'
+
+/**
+ * XLSX 시트 하나로 만들 데이터 (헤더는 점/대괄호 경로로 평면화된 키)
+ */
+export interface DataSheet {
+  name: string
+  headers: string[]
+  rows: any[][]
+}
+
+// Excel 시트 이름 규칙: 최대 31자, \ / ? * [ ] : 사용 불가
+const MAX_SHEET_NAME_LENGTH = 31
+const INVALID_SHEET_NAME_PATTERN = /[\\/?*[\]:]/g
+
+// 열 너비 (문자 수 기준, 한글 등 전각 문자는 2자로 계산)
+const MIN_COLUMN_WIDTH = 8
+const MAX_COLUMN_WIDTH = 60
+const WIDE_CHAR_PATTERN = /[\u1100-\u11ff\u3000-\u9fff\uac00-\ud7a3\uff00-\uffef]/
+
+/**
+ * 파일 이름과 내용으로 데이터 형식을 판단합니다
+ * 확장자가 .json이어도 줄마다 JSON 객체가 있으면 NDJSON으로 봅니다
+ */
+export function detectDataFormat(fileName: string, text: string): DataFileFormat {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'ndjson' || extension === 'jsonl') return 'ndjson'
+  if (extension === 'json') {
+    try {
+      JSON.parse(text)
+      return 'json'
+    } catch {
+      return 'ndjson'
+    }
+  }
+  return 'csv'
+}
+
+/**
+ * 중첩 객체와 배열을 "address.city", "tags[0]", "items[1].name" 형태의 평면 키로 펼칩니다
+ * (중첩 JSON 내보내기의 헤더 경로와 같은 규칙이라 다시 내보내면 원래 구조가 됩니다)
+ */
+export function flattenRecord(value: any, prefix = '', target: Record<string, any> = {}): Record<string, any> {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenRecord(item, `${prefix}[${index}]`, target))
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      flattenRecord(item, prefix ? `${prefix}.${key}` : key, target)
+    }
+  } else {
+    target[prefix || 'value'] = value
+  }
+  return target
+}
+
+/**
+ * 객체 배열을 시트 데이터로 바꿉니다 (헤더는 처음 나온 순서대로)
+ * 객체가 아닌 항목(숫자, 문자열 등)은 value 열에 넣습니다
+ */
+function recordsToSheet(name: string, items: any[]): DataSheet {
+  const records = items.map(item => flattenRecord(item))
+  const headers: string[] = []
+  const seen = new Set<string>()
+
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!seen.has(key)) {
+        seen.add(key)
+        headers.push(key)
+      }
+    }
+  }
+
+  return { name, headers, rows: records.map(record => headers.map(key => record[key] ?? null)) }
+}
+
+/**
+ * CSV 셀 텍스트를 Excel 값으로 바꿉니다
+ * 앞자리 0이 있는 코드("00123")나 15자리가 넘는 ID처럼 숫자로 바꾸면 값이 달라지는 텍스트는 그대로 둡니다
+ */
+export function parseCSVValue(text: string): any {
+  if (text === '') return null
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true'
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(text) && text.replace(/[-.]/g, '').length <= 15) {
+    return Number(text)
+  }
+  return text
+}
+
+/**
+ * 업로드한 JSON, NDJSON, CSV 텍스트를 시트 데이터로 변환합니다
+ * - JSON 배열은 시트 하나, 배열 값만 가진 객체({ "매출": [...], "비용": [...] })는 키마다 시트 하나
+ * - NDJSON은 한 줄에 객체 하나
+ * - CSV는 첫 행을 헤더로 사용 (구분자는 detectDelimiter로 자동 감지, 빈 줄은 건너뜀)
+ * @param text - 파일 내용
+ * @param format - 데이터 형식
+ * @param baseName - 시트가 하나일 때 사용할 시트 이름
+ */
+export function parseDataFile(text: string, format: DataFileFormat, baseName = 'Sheet1'): DataSheet[] {
+  if (format === 'csv') {
+    const rows = parseDelimitedRows(text, detectDelimiter(text))
+      .filter(row => row.some(value => value.trim() !== ''))
+    const [headerRow = [], ...dataRows] = rows
+    return [{
+      name: baseName,
+      headers: headerRow.map((header, j) => String(header).trim() || `column_${j + 1}`),
+      rows: dataRows.map(row => headerRow.map((_, j) => parseCSVValue(String(row[j] ?? '')))),
+    }]
+  }
+
+  if (format === 'ndjson') {
+    const items = text.split(/\r?\n/).flatMap((line, index) => {
+      if (line.trim() === '') return []
+      try {
+        return [JSON.parse(line)]
+      } catch {
+        throw new Error(`${index + 1}번째 줄이 올바른 JSON이 아닙니다`)
+      }
+    })
+    return [recordsToSheet(baseName, items)]
+  }
+
+  const data = JSON.parse(text)
+  if (Array.isArray(data)) return [recordsToSheet(baseName, data)]
+
+  if (data !== null && typeof data === 'object') {
+    const entries = Object.entries(data)
+    if (entries.length > 0 && entries.every(([, value]) => Array.isArray(value))) {
+      return entries.map(([name, items]) => recordsToSheet(name, items as any[]))
+    }
+  }
+
+  // 객체 하나는 한 행짜리 시트로 만듭니다
+  return [recordsToSheet(baseName, [data])]
+}
+
+/**
+ * 시트 이름을 Excel에서 허용하는 고유한 이름으로 바꿉니다
+ */
+function toSheetNames(names: string[]): string[] {
+  const used = new Set<string>()
+
+  return names.map((name, index) => {
+    const base = name.replace(INVALID_SHEET_NAME_PATTERN, '_').trim().slice(0, MAX_SHEET_NAME_LENGTH) || `Sheet${index + 1}`
+    let candidate = base
+    for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+      const tail = ` (${suffix})`
+      candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - tail.length) + tail
+    }
+    used.add(candidate.toLowerCase())
+    return candidate
+  })
+}
+
+function getDisplayWidth(value: any): number {
+  if (value === null || value === undefined) return 0
+  // 여러 줄 텍스트는 가장 긴 줄 기준
+  return Math.max(
+    ...String(value).split('\n').map(line =>
+      Array.from(line).reduce((width, char) => width + (WIDE_CHAR_PATTERN.test(char) ? 2 : 1), 0)
+    )
+  )
+}
+
+/**
+ * 시트 데이터로 워크북을 만듭니다 (열 너비는 내용에 맞게 자동 조정)
+ */
+export function buildWorkbookFromData(sheets: DataSheet[]): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new()
+  const names = toSheetNames(sheets.map(sheet => sheet.name))
+
+  sheets.forEach((sheet, index) => {
+    const worksheet = XLSX.utils.aoa_to_sheet([sheet.headers, ...sheet.rows])
+    worksheet['!cols'] = sheet.headers.map((header, j) => {
+      const width = sheet.rows.reduce((max, row) => Math.max(max, getDisplayWidth(row[j])), getDisplayWidth(header))
+      return { wch: Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width + 2)) }
+    })
+    XLSX.utils.book_append_sheet(workbook, worksheet, names[index])
+  })
+
+  return workbook
+}
+
+// SheetJS 무료 버전은 셀 서식과 틀 고정을 저장하지 않으므로 생성된 XLSX의 XML을 직접 고칩니다
+const BOLD_FONT = '<font><b/><sz val="12"/><color theme="1"/><name val="Calibri"/><family val="2"/><scheme val="minor"/></font>'
+const FROZEN_HEADER_VIEW =
+  '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+  '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>'
+
+/**
+ * 스타일 시트에 굵은 글꼴 서식을 추가합니다
+ * @returns 추가한 서식(cellXfs)의 인덱스
+ */
+function addBoldCellFormat(stylesXml: string): { xml: string; styleIndex: number } {
+  let fontId = 0
+  let styleIndex = 0
+
+  const xml = stylesXml
+    .replace(/<fonts count="(\d+)"([^>]*)>([\s\S]*?)<\/fonts>/, (_, count, attributes, fonts) => {
+      fontId = Number(count)
+      return `<fonts count="${fontId + 1}"${attributes}>${fonts}${BOLD_FONT}</fonts>`
+    })
+    .replace(/<cellXfs count="(\d+)"([^>]*)>([\s\S]*?)<\/cellXfs>/, (_, count, attributes, formats) => {
+      styleIndex = Number(count)
+      const bold = `<xf numFmtId="0" fontId="${fontId}" fillId="0" borderId="0" xfId="0" applyFont="1"/>`
+      return `<cellXfs count="${styleIndex + 1}"${attributes}>${formats}${bold}</cellXfs>`
+    })
+
+  return { xml, styleIndex }
+}
+
+/**
+ * 스타일 시트에 배경색 서식을 색마다 하나씩 추가합니다
+ * @returns 색(ARGB)별로 추가한 서식(cellXfs)의 인덱스
+ */
+function addFillCellFormats(stylesXml: string, colors: string[]): { xml: string; styleIndexes: Map<string, number> } {
+  const styleIndexes = new Map<string, number>()
+  if (colors.length === 0) return { xml: stylesXml, styleIndexes }
+
+  let firstFillId = 0
+  const xml = stylesXml
+    .replace(/<fills count="(\d+)"([^>]*)>([\s\S]*?)<\/fills>/, (_, count, attributes, fills) => {
+      firstFillId = Number(count)
+      const added = colors
+        .map(color => `<fill><patternFill patternType="solid"><fgColor rgb="${color}"/><bgColor indexed="64"/></patternFill></fill>`)
+        .join('')
+      return `<fills count="${firstFillId + colors.length}"${attributes}>${fills}${added}</fills>`
+    })
+    .replace(/<cellXfs count="(\d+)"([^>]*)>([\s\S]*?)<\/cellXfs>/, (_, count, attributes, formats) => {
+      const firstStyleIndex = Number(count)
+      const added = colors.map((color, index) => {
+        styleIndexes.set(color, firstStyleIndex + index)
+        return `<xf numFmtId="0" fontId="0" fillId="${firstFillId + index}" borderId="0" xfId="0" applyFill="1"/>`
+      }).join('')
+      return `<cellXfs count="${firstStyleIndex + colors.length}"${attributes}>${formats}${added}</cellXfs>`
+    })
+
+  return { xml, styleIndexes }
+}
+
+/**
+ * 지정한 셀에 배경색 서식을 적용합니다 (이미 서식이 있는 셀은 그대로 둡니다)
+ */
+function highlightCells(sheetXml: string, fills: Record<string, string>, styleIndexes: Map<string, number>): string {
+  return sheetXml.replace(/<c r="([A-Z]+\d+)"(?![^>]*\ss=)/g, (match, address: string) => {
+    const styleIndex = fills[address] !== undefined ? styleIndexes.get(fills[address]) : undefined
+    return styleIndex === undefined ? match : `<c r="${address}" s="${styleIndex}"`
+  })
+}
+
+/**
+ * 첫 행 셀에 굵은 서식을 적용하고 첫 행을 틀 고정합니다
+ */
+function styleHeaderRow(sheetXml: string, styleIndex: number): string {
+  return sheetXml
+    .replace(/<sheetView workbookViewId="0"[^>]*\/>/, FROZEN_HEADER_VIEW)
+    .replace(/<row r="1"([^>]*)>([\s\S]*?)<\/row>/, (_, attributes, cells: string) =>
+      `<row r="1"${attributes}>${cells.replace(/<c r="([A-Z]+1)"(?![^>]*\ss=)/g, `<c r="$1" s="${styleIndex}"`)}</row>`
+    )
+}
+
+/**
+ * 셀 배경색 (시트 이름 → 셀 주소 → ARGB 색, 예: { "Sheet1": { "B2": "FFFFEB9C" } })
+ */
+export type CellHighlights = Record<string, Record<string, string>>
+
+/**
+ * 워크북을 XLSX 파일로 저장합니다
+ * 모든 시트의 첫 행(헤더)은 굵게 표시하고 틀 고정합니다
+ * @param highlights - 배경색을 칠할 셀
+ * @returns XLSX 파일 내용
+ */
+export async function writeStyledXLSX(workbook: XLSX.WorkBook, highlights: CellHighlights = {}): Promise<ArrayBuffer> {
+  const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer
+  const zip = await JSZip.loadAsync(data)
+
+  const stylesFile = zip.file('xl/styles.xml')
+  if (!stylesFile) return data
+  const { xml: boldStylesXml, styleIndex } = addBoldCellFormat(await stylesFile.async('string'))
+  const colors = [...new Set(Object.values(highlights).flatMap(fills => Object.values(fills)))]
+  const { xml: stylesXml, styleIndexes } = addFillCellFormats(boldStylesXml, colors)
+  zip.file('xl/styles.xml', stylesXml)
+
+  for (const path of Object.keys(zip.files)) {
+    const match = path.match(/^xl\/worksheets\/sheet(\d+)\.xml$/)
+    if (!match) continue
+    // SheetJS는 시트 순서대로 sheet1.xml, sheet2.xml, ... 로 저장합니다
+    const fills = highlights[workbook.SheetNames[Number(match[1]) - 1]]
+    let sheetXml = styleHeaderRow(await zip.file(path)!.async('string'), styleIndex)
+    if (fills) sheetXml = highlightCells(sheetXml, fills, styleIndexes)
+    zip.file(path, sheetXml)
+  }
+
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' })
+}